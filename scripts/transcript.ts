@@ -0,0 +1,128 @@
+// scripts/transcript.ts
+
+/**
+  Prints the screen reader transcript of a page without a browser.
+
+  Usage:
+    npm run transcript -- <file.html | http://localhost:5173/> [options]
+
+  Options:
+    --profile <id>   generic | nvda | jaws | voiceover | talkback
+    --format <fmt>   text (default) | json
+    --run-scripts    Execute the page's scripts (needed for client-rendered apps)
+    --wait <ms>      Settle time after load when running scripts (default 1000)
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { JSDOM } from "jsdom";
+import { PROFILES, type ProfileId } from "../src/utils/profiles";
+
+type CliOptions = {
+  target: string;
+  profile: ProfileId;
+  format: "text" | "json";
+  runScripts: boolean;
+  wait: number;
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    target: "",
+    profile: "generic",
+    format: "text",
+    runScripts: false,
+    wait: 1000,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--profile") {
+      const id = argv[++i] as ProfileId;
+      if (!PROFILES[id]) fail(`Unknown profile "${id}"`);
+      options.profile = id;
+    } else if (arg === "--format") {
+      const format = argv[++i];
+      if (format !== "text" && format !== "json") {
+        fail(`Unknown format "${format}"`);
+      }
+      options.format = format as CliOptions["format"];
+    } else if (arg === "--run-scripts") {
+      options.runScripts = true;
+    } else if (arg === "--wait") {
+      options.wait = Number(argv[++i]) || 0;
+    } else if (!options.target) {
+      options.target = arg;
+    } else {
+      fail(`Unexpected argument "${arg}"`);
+    }
+  }
+
+  if (!options.target) fail("Usage: transcript <file.html | url> [options]");
+  return options;
+};
+
+const loadDom = async ({ target, runScripts }: CliOptions): Promise<JSDOM> => {
+  const jsdomOptions = runScripts
+    ? { runScripts: "dangerously" as const, resources: "usable" as const }
+    : {};
+
+  if (/^https?:\/\//.test(target)) {
+    return JSDOM.fromURL(target, jsdomOptions);
+  }
+
+  const path = resolve(target);
+  const html = await readFile(path, "utf8");
+  return new JSDOM(html, { ...jsdomOptions, url: pathToFileURL(path).href });
+};
+
+/**
+ * The simulator's utilities read `document`, `window` and DOM constructors
+ * from the global scope, as they would in the browser.
+ */
+const installGlobals = (dom: JSDOM): void => {
+  const { window } = dom;
+  const globals = globalThis as Record<string, unknown>;
+  for (const key of Object.getOwnPropertyNames(window)) {
+    if (key in globals) continue;
+    Object.defineProperty(globals, key, {
+      configurable: true,
+      get: () => window[key as keyof typeof window],
+    });
+  }
+};
+
+const main = async (): Promise<void> => {
+  const options = parseArgs(process.argv.slice(2));
+  const dom = await loadDom(options);
+
+  if (options.runScripts) {
+    await new Promise<void>((done) => {
+      if (dom.window.document.readyState === "complete") done();
+      else dom.window.addEventListener("load", () => done());
+    });
+    await new Promise((done) => setTimeout(done, options.wait));
+  }
+
+  installGlobals(dom);
+  // Imported after the globals exist
+  const { formatTranscript, generateTranscript } = await import(
+    "../src/utils/transcript"
+  );
+
+  const entries = generateTranscript(options.profile);
+  console.log(
+    options.format === "json"
+      ? JSON.stringify(entries, null, 2)
+      : formatTranscript(entries)
+  );
+  dom.window.close();
+};
+
+main().catch((err) => fail(err instanceof Error ? err.message : String(err)));
@@ -0,0 +1,128 @@
+// src/components/AuditPanel.tsx
+
+import { type JSX, useState } from "react";
+import {
+  type AuditFinding,
+  type AuditSeverity,
+  runAudit,
+} from "../utils/audit";
+import type { AccNode } from "../utils/utils";
+
+interface AuditPanelProps {
+  nodes: AccNode[];
+  onSelect: (index: number) => void;
+}
+
+export function AuditPanel({ nodes, onSelect }: AuditPanelProps): JSX.Element {
+  const [findings, setFindings] = useState<AuditFinding[] | null>(null);
+
+  const select = (finding: AuditFinding) => {
+    const i = finding.node ? nodes.indexOf(finding.node) : -1;
+    if (i >= 0) {
+      onSelect(i);
+    } else {
+      // Not reachable by the virtual cursor (e.g. a clickable div)
+      finding.el.scrollIntoView({ block: "center", behavior: "smooth" });
+    }
+  };
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>Audit</strong>
+        {findings && (
+          <span style={{ marginLeft: 8, fontSize: 12, color: "#6b7280" }}>
+            {findings.length} issue{findings.length === 1 ? "" : "s"}
+          </span>
+        )}
+        <button
+          onClick={() => setFindings(runAudit(nodes))}
+          className="srs-mute-btn"
+          style={{ marginLeft: "auto" }}
+          type="button"
+        >
+          <span className="srs-mute-label">
+            {findings ? "Re-run" : "Run audit"}
+          </span>
+        </button>
+      </div>
+
+      {findings && (
+        <ul style={listStyle}>
+          {findings.map((f, i) => (
+            <li key={`${f.ruleId}-${i}`}>
+              <button
+                onClick={() => select(f)}
+                style={findingStyle}
+                type="button"
+              >
+                <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                  <span
+                    style={{
+                      ...badgeStyle,
+                      background: SEVERITY_COLORS[f.severity],
+                    }}
+                  >
+                    {f.severity}
+                  </span>
+                  <span style={{ fontSize: 11, color: "#6b7280" }}>
+                    WCAG {f.wcag}
+                  </span>
+                </div>
+                <div style={{ fontSize: 13, marginTop: 4 }}>{f.message}</div>
+                <div style={{ fontSize: 12, marginTop: 2, color: "#4b5563" }}>
+                  Fix: {f.fix}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// --- STYLES ---
+
+const SEVERITY_COLORS: Record<AuditSeverity, string> = {
+  critical: "#b91c1c",
+  serious: "#c2410c",
+  moderate: "#a16207",
+  minor: "#4b5563",
+};
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: "8px 0 0",
+  padding: 0,
+  display: "grid",
+  gap: 6,
+  maxHeight: 240,
+  overflowY: "auto",
+};
+
+const findingStyle: React.CSSProperties = {
+  width: "100%",
+  textAlign: "left",
+  border: "1px solid #e5e7eb",
+  background: "#fff",
+  color: "#111827",
+  borderRadius: 8,
+  padding: "8px 10px",
+  cursor: "pointer",
+};
+
+const badgeStyle: React.CSSProperties = {
+  color: "#fff",
+  fontSize: 11,
+  fontWeight: 600,
+  borderRadius: 4,
+  padding: "1px 6px",
+  textTransform: "uppercase",
+};
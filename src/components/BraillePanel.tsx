@@ -0,0 +1,176 @@
+// src/components/BraillePanel.tsx
+
+import { type JSX, useMemo, useState } from "react";
+import {
+  type BrailleMode,
+  composeBrailleLine,
+  formatBrailleText,
+  toBrailleCells,
+} from "../utils/braille";
+import type { AccNode } from "../utils/utils";
+
+// Cells on the simulated display (a common 20-cell portable size)
+const DISPLAY_SIZE = 20;
+
+export function BraillePanel({
+  nodes,
+  index,
+  onFocus,
+  onActivate,
+}: {
+  nodes: AccNode[];
+  index: number;
+  onFocus: (index: number) => void;
+  onActivate: () => void;
+}): JSX.Element {
+  const [mode, setMode] = useState<BrailleMode>("uncontracted");
+  // Pan offset belongs to one node; moving elsewhere starts at its beginning
+  const [pan, setPan] = useState({ index, offset: 0 });
+  const offset = pan.index === index ? pan.offset : 0;
+
+  const line = useMemo(
+    () => composeBrailleLine(nodes, index, mode, offset + DISPLAY_SIZE),
+    [nodes, index, mode, offset]
+  );
+  const current = nodes[index];
+  const currentLength = line.filter((c) => c.nodeIndex === index).length;
+  const windowCells = line.slice(offset, offset + DISPLAY_SIZE);
+  const windowText = [...new Set(windowCells.map((c) => c.nodeIndex))]
+    .map((i) => nodes[i] && formatBrailleText(nodes[i]))
+    .join(" ");
+
+  const panForward = () => {
+    if (offset + DISPLAY_SIZE < currentLength) {
+      setPan({ index, offset: offset + DISPLAY_SIZE });
+    } else {
+      onFocus(index + 1);
+    }
+  };
+
+  const panBack = () => {
+    if (offset > 0) {
+      setPan({ index, offset: Math.max(0, offset - DISPLAY_SIZE) });
+      return;
+    }
+    // Show the end of the previous node, as hardware displays do
+    const prev = nodes[index - 1];
+    if (prev) {
+      const length = toBrailleCells(formatBrailleText(prev), mode).length;
+      const lastWindow =
+        Math.floor(Math.max(0, length - 1) / DISPLAY_SIZE) * DISPLAY_SIZE;
+      setPan({ index: index - 1, offset: lastWindow });
+    }
+    onFocus(index - 1);
+  };
+
+  // Routing on the current node activates it; elsewhere it moves there
+  const route = (nodeIndex: number) => {
+    if (nodeIndex === index) onActivate();
+    else onFocus(nodeIndex);
+  };
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>Braille</strong>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as BrailleMode)}
+          aria-label="Braille table"
+          style={{ marginLeft: "auto", fontSize: 12 }}
+        >
+          <option value="uncontracted">English uncontracted</option>
+          <option value="contracted">English contracted</option>
+        </select>
+      </div>
+
+      <div style={displayStyle}>
+        <button
+          onClick={panBack}
+          className="srs-mute-btn"
+          aria-label="Pan left"
+          type="button"
+        >
+          <span className="srs-mute-label">◀</span>
+        </button>
+        <div style={cellsStyle}>
+          {Array.from({ length: DISPLAY_SIZE }, (_, i) => {
+            const c = windowCells[i];
+            return (
+              <button
+                key={i}
+                onClick={() => c && route(c.nodeIndex)}
+                disabled={!c}
+                title={c ? `Route to element ${c.nodeIndex + 1}` : undefined}
+                style={{
+                  ...cellStyle,
+                  color: c?.nodeIndex === index ? "#111827" : "#9ca3af",
+                }}
+                type="button"
+              >
+                {c?.cell ?? "⠀"}
+              </button>
+            );
+          })}
+        </div>
+        <button
+          onClick={panForward}
+          className="srs-mute-btn"
+          aria-label="Pan right"
+          type="button"
+        >
+          <span className="srs-mute-label">▶</span>
+        </button>
+      </div>
+
+      <div style={printStyle}>
+        {current ? windowText : "No element focused"}
+      </div>
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const displayStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 4,
+  marginTop: 8,
+};
+
+const cellsStyle: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: `repeat(${DISPLAY_SIZE}, 1fr)`,
+  flex: 1,
+  background: "#1f2937",
+  borderRadius: 4,
+  padding: 2,
+  gap: 1,
+};
+
+const cellStyle: React.CSSProperties = {
+  border: 0,
+  borderRadius: 2,
+  background: "#f3f4f6",
+  fontSize: 16,
+  lineHeight: "22px",
+  padding: 0,
+  cursor: "pointer",
+};
+
+const printStyle: React.CSSProperties = {
+  marginTop: 6,
+  fontFamily: "monospace",
+  fontSize: 12,
+  color: "#374151",
+  whiteSpace: "nowrap",
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+};
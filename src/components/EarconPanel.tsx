@@ -0,0 +1,68 @@
+// src/components/EarconPanel.tsx
+
+import { type JSX, useSyncExternalStore } from "react";
+import {
+  EARCONS,
+  type EarconId,
+  getEarconSnapshot,
+  playEarcon,
+  setEarconEnabled,
+  subscribeEarcons,
+} from "../utils/earcons";
+
+export function EarconPanel(): JSX.Element {
+  const enabled = useSyncExternalStore(subscribeEarcons, getEarconSnapshot);
+
+  return (
+    <div style={panelStyle}>
+      <strong style={{ fontWeight: 600, fontSize: 13 }}>Sound Cues</strong>
+      <ul style={listStyle}>
+        {(Object.keys(EARCONS) as EarconId[]).map((id) => (
+          <li key={id} style={rowStyle}>
+            <label style={{ display: "flex", gap: 6, flex: 1 }}>
+              <input
+                type="checkbox"
+                checked={enabled[id]}
+                onChange={(e) => setEarconEnabled(id, e.target.checked)}
+              />
+              {EARCONS[id].label}
+            </label>
+            <button
+              onClick={() => playEarcon(id)}
+              className="srs-mute-btn"
+              disabled={!enabled[id]}
+              aria-label={`Preview ${EARCONS[id].label}`}
+              type="button"
+            >
+              <span className="srs-mute-label">Play</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: "8px 0 0",
+  padding: 0,
+  display: "grid",
+  gridTemplateColumns: "1fr 1fr",
+  gap: "4px 16px",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  fontSize: 12,
+  color: "#374151",
+};
@@ -0,0 +1,163 @@
+// src/components/ElementsListPanel.tsx
+
+import { type JSX, useEffect, useMemo, useRef, useState } from "react";
+import { ROTOR_OPTIONS } from "../hooks/useScreenReaderSimulator";
+import { getHeadingLevel } from "../utils/announce";
+import type { AccNode } from "../utils/utils";
+
+// Element types offered, in NVDA's elements list order
+const ELEMENT_TYPES = [
+  "Headings",
+  "Links",
+  "Landmarks",
+  "Form Fields",
+  "Buttons",
+];
+
+interface ElementsListPanelProps {
+  nodes: AccNode[];
+  onSelect: (index: number) => void;
+}
+
+export function ElementsListPanel({
+  nodes,
+  onSelect,
+}: ElementsListPanelProps): JSX.Element {
+  const [type, setType] = useState(ELEMENT_TYPES[0]!);
+  const [filter, setFilter] = useState("");
+  const filterRef = useRef<HTMLInputElement>(null);
+
+  // Ready to type a filter as soon as the list opens
+  useEffect(() => {
+    filterRef.current?.focus();
+  }, []);
+
+  const items = useMemo(() => {
+    const predicate = ROTOR_OPTIONS.find((o) => o.label === type)?.predicate;
+    if (!predicate) return [];
+    const query = filter.trim().toLowerCase();
+    return nodes
+      .map((node, index) => ({ node, index, label: describeItem(node) }))
+      .filter(({ node }) => predicate(node))
+      .filter(({ label }) => !query || label.toLowerCase().includes(query));
+  }, [nodes, type, filter]);
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>Elements List</strong>
+        <span style={{ marginLeft: "auto", fontSize: 12, color: "#6b7280" }}>
+          {items.length} {type.toLowerCase()}
+        </span>
+      </div>
+
+      <div role="radiogroup" aria-label="Type" style={typesStyle}>
+        {ELEMENT_TYPES.map((label) => (
+          <label key={label} style={{ fontSize: 12 }}>
+            <input
+              type="radio"
+              name="srs-elements-type"
+              checked={type === label}
+              onChange={() => setType(label)}
+            />{" "}
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <input
+        ref={filterRef}
+        type="search"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter by"
+        aria-label="Filter by"
+        style={filterStyle}
+      />
+
+      <ul style={listStyle}>
+        {items.map(({ node, index, label }) => (
+          <li key={index}>
+            <button
+              onClick={() => onSelect(index)}
+              style={{
+                ...entryStyle,
+                paddingLeft:
+                  type === "Headings"
+                    ? 8 + ((getHeadingLevel(node.el) ?? 1) - 1) * 10
+                    : 8,
+                color: node.name ? "#111827" : "#b91c1c",
+              }}
+              type="button"
+            >
+              {label}
+            </button>
+          </li>
+        ))}
+        {!items.length && (
+          <li style={{ fontSize: 12, color: "#6b7280" }}>No matches</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+// Out-of-context text, as the elements list shows it
+const describeItem = (node: AccNode): string => {
+  const name = node.name || "(no name)";
+  if (node.role === "heading") {
+    const level = getHeadingLevel(node.el);
+    return level ? `${level} ${name}` : name;
+  }
+  if (ROTOR_OPTIONS.find((o) => o.label === "Landmarks")?.predicate?.(node)) {
+    return node.name ? `${node.role}: ${node.name}` : node.role;
+  }
+  if (node.role === "link" || node.role === "button") return name;
+  return `${name} (${node.role})`;
+};
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const typesStyle: React.CSSProperties = {
+  display: "flex",
+  flexWrap: "wrap",
+  gap: "4px 12px",
+  margin: "8px 0",
+};
+
+const filterStyle: React.CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  padding: "4px 8px",
+  fontSize: 12,
+  border: "1px solid #d1d5db",
+  borderRadius: 6,
+  marginBottom: 8,
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: 0,
+  padding: 0,
+  display: "grid",
+  gap: 4,
+  maxHeight: 220,
+  overflowY: "auto",
+};
+
+const entryStyle: React.CSSProperties = {
+  width: "100%",
+  textAlign: "left",
+  border: "1px solid #e5e7eb",
+  background: "#fff",
+  borderRadius: 6,
+  padding: "4px 8px",
+  fontSize: 12,
+  cursor: "pointer",
+};
@@ -0,0 +1,27 @@
+// src/components/Example.test.tsx
+import { renderToStaticMarkup } from "react-dom/server";
+import { afterEach, it } from "vitest";
+import { expectTranscriptSnapshot } from "../testing/goldenTranscript";
+import Example from "./Example";
+import ExampleFixed from "./ExampleFixed";
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+// Each script ends on the form's Submit control, so activation is covered
+it("reads the inaccessible form", async () => {
+  document.body.innerHTML = renderToStaticMarkup(<Example />);
+  await expectTranscriptSnapshot(
+    "next ×11, activate, next heading",
+    "./__transcripts__/example.txt"
+  );
+});
+
+it("reads the fixed form", async () => {
+  document.body.innerHTML = renderToStaticMarkup(<ExampleFixed />);
+  await expectTranscriptSnapshot(
+    "next ×8, activate, next heading",
+    "./__transcripts__/example-fixed.txt"
+  );
+});
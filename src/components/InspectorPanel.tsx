@@ -0,0 +1,129 @@
+// src/components/InspectorPanel.tsx
+
+import { type JSX, useEffect, useRef } from "react";
+import type { AccNode } from "../utils/utils";
+
+interface InspectorPanelProps {
+  nodes: AccNode[];
+  index: number;
+  onSelect: (index: number) => void;
+}
+
+export function InspectorPanel({
+  nodes,
+  index,
+  onSelect,
+}: InspectorPanelProps): JSX.Element {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the virtual cursor's entry in view as it moves
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: "nearest" });
+  }, [index]);
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center", marginBottom: 8 }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>
+          Accessibility Tree
+        </strong>
+        <span style={{ marginLeft: 8, fontSize: 12, color: "#6b7280" }}>
+          {nodes.length} node{nodes.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <ol style={listStyle}>
+        {nodes.map((node, i) => {
+          const active = i === index;
+          return (
+            <li key={i}>
+              <button
+                ref={active ? activeRef : undefined}
+                onClick={() => onSelect(i)}
+                aria-current={active}
+                style={{
+                  ...entryStyle,
+                  paddingLeft: 8 + node.depth * 10,
+                  background: active ? "#ede9fe" : "#fff",
+                  borderColor: active ? "#7c3aed" : "#e5e7eb",
+                }}
+                type="button"
+              >
+                <div>
+                  <span style={roleStyle}>{node.role}</span>
+                  {node.name && <span> "{node.name}"</span>}
+                </div>
+                <NodeDetails node={node} />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+function NodeDetails({ node }: { node: AccNode }) {
+  const details: [string, string][] = [];
+  if (node.description) details.push(["description", node.description]);
+  if (node.value) details.push(["value", node.value]);
+  if (node.states.length) details.push(["states", node.states.join(", ")]);
+  if (node.pos) details.push(["pos", `${node.pos.pos} of ${node.pos.size}`]);
+  if (node.coords) {
+    details.push(["coords", `row ${node.coords.row}, col ${node.coords.col}`]);
+  }
+  if (!details.length) return null;
+
+  return (
+    <dl style={detailsStyle}>
+      {details.map(([term, value]) => (
+        <div key={term} style={{ display: "flex", gap: 6 }}>
+          <dt style={{ color: "#6b7280" }}>{term}</dt>
+          <dd style={{ margin: 0 }}>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: 0,
+  padding: 0,
+  display: "grid",
+  gap: 4,
+  maxHeight: 240,
+  overflowY: "auto",
+};
+
+const entryStyle: React.CSSProperties = {
+  width: "100%",
+  textAlign: "left",
+  border: "1px solid",
+  color: "#111827",
+  borderRadius: 6,
+  padding: "6px 8px",
+  fontSize: 13,
+  cursor: "pointer",
+};
+
+const roleStyle: React.CSSProperties = {
+  fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+  fontSize: 12,
+  color: "#7c3aed",
+};
+
+const detailsStyle: React.CSSProperties = {
+  margin: "4px 0 0",
+  fontSize: 12,
+  display: "grid",
+  gap: 2,
+};
@@ -0,0 +1,160 @@
+// src/components/KeyboardTrapPanel.tsx
+
+import { type JSX, useState } from "react";
+import { scanTabOrder, type TabScanResult } from "../utils/keyboardTraps";
+import type { AccNode } from "../utils/utils";
+
+interface KeyboardTrapPanelProps {
+  nodes: AccNode[];
+  onSelect: (index: number) => void;
+}
+
+export function KeyboardTrapPanel({
+  nodes,
+  onSelect,
+}: KeyboardTrapPanelProps): JSX.Element {
+  const [result, setResult] = useState<TabScanResult | null>(null);
+
+  const select = (el: HTMLElement) => {
+    const i = nodes.findIndex((n) => n.el === el);
+    if (i >= 0) {
+      onSelect(i);
+    } else {
+      el.scrollIntoView({ block: "center", behavior: "smooth" });
+    }
+  };
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>
+          Keyboard Traps
+        </strong>
+        {result && (
+          <span style={{ marginLeft: 8, fontSize: 12, color: "#6b7280" }}>
+            {result.expected.filter((el) => result.visited.includes(el)).length}{" "}
+            of {result.expected.length} tab stops reached
+          </span>
+        )}
+        <button
+          onClick={() => setResult(scanTabOrder())}
+          className="srs-mute-btn"
+          style={{ marginLeft: "auto" }}
+          type="button"
+        >
+          <span className="srs-mute-label">
+            {result ? "Re-scan" : "Scan Tab order"}
+          </span>
+        </button>
+      </div>
+
+      {result && !result.traps.length && (
+        <div style={{ fontSize: 12, marginTop: 8, color: "#15803d" }}>
+          {result.reachedEnd
+            ? "No traps: Tab reaches the end of the page."
+            : "No cycles, but focus was lost before the end of the page."}
+        </div>
+      )}
+
+      {result && result.traps.length > 0 && (
+        <ul style={listStyle}>
+          {result.traps.map((trap, i) => (
+            <li key={i} style={trapStyle}>
+              <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <span style={badgeStyle}>Trap</span>
+                <span style={{ fontSize: 11, color: "#6b7280" }}>
+                  WCAG 2.1.2 No Keyboard Trap
+                </span>
+              </div>
+              <div style={{ fontSize: 13, marginTop: 4 }}>
+                {trap.elements.length === 1
+                  ? "Tab never leaves this element:"
+                  : `Tab cycles through ${trap.elements.length} elements:`}
+              </div>
+              <ol style={elementListStyle}>
+                {trap.elements.map((el, j) => (
+                  <li key={j}>
+                    <button
+                      onClick={() => select(el)}
+                      style={elementStyle}
+                      type="button"
+                    >
+                      {describeTabStop(el, nodes)}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              {trap.inDialog && (
+                <div style={{ fontSize: 12, marginTop: 4, color: "#4b5563" }}>
+                  Inside a dialog: acceptable only if Escape or a close button
+                  lets keyboard users out.
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+// Tree name and role when the element has a node, else its tag
+const describeTabStop = (el: HTMLElement, nodes: AccNode[]): string => {
+  const node = nodes.find((n) => n.el === el);
+  if (node) return `${node.name || "(no name)"} (${node.role})`;
+  return `<${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ""}>`;
+};
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: "8px 0 0",
+  padding: 0,
+  display: "grid",
+  gap: 6,
+  maxHeight: 240,
+  overflowY: "auto",
+};
+
+const trapStyle: React.CSSProperties = {
+  border: "1px solid #fecaca",
+  background: "#fef2f2",
+  color: "#111827",
+  borderRadius: 8,
+  padding: "8px 10px",
+};
+
+const badgeStyle: React.CSSProperties = {
+  color: "#fff",
+  background: "#b91c1c",
+  fontSize: 11,
+  fontWeight: 600,
+  borderRadius: 4,
+  padding: "1px 6px",
+  textTransform: "uppercase",
+};
+
+const elementListStyle: React.CSSProperties = {
+  margin: "4px 0 0",
+  paddingLeft: 20,
+  display: "grid",
+  gap: 2,
+};
+
+const elementStyle: React.CSSProperties = {
+  border: "none",
+  background: "none",
+  padding: 0,
+  fontSize: 12,
+  color: "#1d4ed8",
+  textAlign: "left",
+  cursor: "pointer",
+  textDecoration: "underline",
+};
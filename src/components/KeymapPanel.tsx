@@ -0,0 +1,281 @@
+// src/components/KeymapPanel.tsx
+
+import {
+  type JSX,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  COMMANDS,
+  type CommandId,
+  eventToBinding,
+  findKeyConflicts,
+  findPageShortcutConflicts,
+  formatBinding,
+  formatKeys,
+  getCommand,
+  getHelpRows,
+  isModifierKey,
+  resolveKeymap,
+} from "../utils/keymap";
+import {
+  getSettings,
+  subscribeSettings,
+  updateSettings,
+} from "../utils/settings";
+
+export function KeymapPanel(): JSX.Element {
+  const { keymap: overrides, readerKey } = useSyncExternalStore(
+    subscribeSettings,
+    getSettings
+  );
+  const keymap = useMemo(() => resolveKeymap(overrides), [overrides]);
+  const conflicts = useMemo(() => findKeyConflicts(keymap), [keymap]);
+  // Not memoised: the page's shortcuts change with its DOM, and the panel
+  // re-renders with the HUD on every tree rebuild
+  const pageConflicts = findPageShortcutConflicts(keymap);
+  const [editing, setEditing] = useState(false);
+  const [capturing, setCapturing] = useState<CommandId | null>(null);
+
+  // Key capture state; the reader key is a modifier the browser does not report
+  const readerKeyHeld = useRef(false);
+  const pendingModifier = useRef<string | null>(null);
+
+  const bind = (id: CommandId, keys: string[] | undefined) => {
+    const next = { ...overrides };
+    if (keys) next[id] = keys;
+    else delete next[id];
+    updateSettings({ keymap: next });
+    setCapturing(null);
+  };
+
+  const onCaptureKeyDown = (e: React.KeyboardEvent, id: CommandId) => {
+    if (capturing !== id) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const native = e.nativeEvent;
+    if (e.key === readerKey) {
+      readerKeyHeld.current = true;
+    } else if (isModifierKey(native)) {
+      // A lone modifier ("Ctrl") binds on release if no key follows
+      pendingModifier.current = eventToBinding(native, readerKeyHeld.current);
+    } else if (e.key === "Escape" && !e.ctrlKey && !e.altKey && !e.shiftKey) {
+      setCapturing(null);
+    } else {
+      pendingModifier.current = null;
+      bind(id, [eventToBinding(native, readerKeyHeld.current)]);
+    }
+  };
+
+  const onCaptureKeyUp = (e: React.KeyboardEvent, id: CommandId) => {
+    if (e.key === readerKey) readerKeyHeld.current = false;
+    if (capturing === id && pendingModifier.current) {
+      bind(id, [pendingModifier.current]);
+    }
+    pendingModifier.current = null;
+  };
+
+  const conflictsOf = (id: CommandId) =>
+    conflicts
+      .filter((c) => keymap[id].includes(c.binding))
+      .flatMap((c) => c.commands.filter((other) => other !== id));
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>
+          Keyboard Shortcuts
+        </strong>
+        {editing && (
+          <button
+            onClick={() => updateSettings({ keymap: {} })}
+            className="srs-mute-btn"
+            style={{ marginLeft: "auto" }}
+            type="button"
+          >
+            <span className="srs-mute-label">Reset all</span>
+          </button>
+        )}
+        <button
+          onClick={() => {
+            setEditing(!editing);
+            setCapturing(null);
+          }}
+          className="srs-mute-btn"
+          style={editing ? undefined : { marginLeft: "auto" }}
+          type="button"
+        >
+          <span className="srs-mute-label">
+            {editing ? "Done" : "Customize"}
+          </span>
+        </button>
+      </div>
+
+      {pageConflicts.length > 0 && (
+        <div style={warningStyle}>
+          {pageConflicts.length} page shortcut
+          {pageConflicts.length === 1 ? " is" : "s are"} taken by the simulator:
+          <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+            {pageConflicts.slice(0, 5).map((c, i) => (
+              <li key={i}>
+                <kbd className="srs-kbd">
+                  {formatBinding(c.binding, readerKey)}
+                </kbd>{" "}
+                {getCommand(c.command).label} ({c.source} on{" "}
+                {describeElement(c.el)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!editing && (
+        <div style={helpGrid}>
+          {getHelpRows(keymap).map((row) => (
+            <KeyRow
+              key={`${row.group}/${row.label}`}
+              k={
+                row.keys.length
+                  ? row.keys.map((k) => formatBinding(k, readerKey)).join(" / ")
+                  : "Unbound"
+              }
+              label={row.label}
+            />
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <ul style={listStyle}>
+          {COMMANDS.map((command) => {
+            const others = conflictsOf(command.id);
+            return (
+              <li key={command.id} style={rowStyle}>
+                <span style={{ flex: 1 }}>{command.label}</span>
+                <button
+                  onClick={() => setCapturing(command.id)}
+                  onKeyDown={(e) => onCaptureKeyDown(e, command.id)}
+                  onKeyUp={(e) => onCaptureKeyUp(e, command.id)}
+                  onBlur={() => {
+                    setCapturing(null);
+                    readerKeyHeld.current = false;
+                  }}
+                  aria-label={`${command.label}: ${formatKeys(
+                    keymap[command.id],
+                    readerKey
+                  )}. Activate to change.`}
+                  style={{
+                    ...captureStyle,
+                    borderColor:
+                      capturing === command.id ? "#7c3aed" : "#e5e7eb",
+                  }}
+                  type="button"
+                >
+                  {capturing === command.id
+                    ? "Press keys (Esc cancels)"
+                    : formatKeys(keymap[command.id], readerKey)}
+                </button>
+                {overrides[command.id] && (
+                  <button
+                    onClick={() => bind(command.id, undefined)}
+                    className="srs-mute-btn"
+                    type="button"
+                  >
+                    <span className="srs-mute-label">Default</span>
+                  </button>
+                )}
+                {others.length > 0 && (
+                  <div style={{ ...conflictStyle, flexBasis: "100%" }}>
+                    Also bound to{" "}
+                    {others.map((id) => getCommand(id).label).join(", ")}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+function KeyRow({ k, label }: { k: string; label: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+      }}
+    >
+      <span style={{ fontSize: 13, color: "#374151" }}>{label}</span>
+      <kbd className="srs-kbd" style={{ fontSize: 12 }}>
+        {k}
+      </kbd>
+    </div>
+  );
+}
+
+const describeElement = (el: HTMLElement): string =>
+  `<${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ""}>`;
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const helpGrid: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "1fr 1fr",
+  gap: "8px 24px",
+  marginTop: 8,
+};
+
+const warningStyle: React.CSSProperties = {
+  marginTop: 8,
+  border: "1px solid #fde68a",
+  background: "#fffbeb",
+  color: "#92400e",
+  borderRadius: 6,
+  padding: "6px 8px",
+  fontSize: 12,
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: "8px 0 0",
+  padding: 0,
+  display: "grid",
+  gap: 4,
+  maxHeight: 240,
+  overflowY: "auto",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  flexWrap: "wrap",
+  alignItems: "center",
+  gap: 6,
+  fontSize: 12,
+  color: "#374151",
+};
+
+const captureStyle: React.CSSProperties = {
+  border: "1px solid",
+  background: "#fff",
+  borderRadius: 6,
+  padding: "2px 8px",
+  fontSize: 12,
+  fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+  cursor: "pointer",
+};
+
+const conflictStyle: React.CSSProperties = {
+  color: "#b45309",
+  fontSize: 11,
+};
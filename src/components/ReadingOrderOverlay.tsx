@@ -0,0 +1,145 @@
+// src/components/ReadingOrderOverlay.tsx
+
+import { type JSX, useEffect, useMemo, useState } from "react";
+import { findOrderJumps, hasBox } from "../utils/readingOrder";
+import type { AccNode } from "../utils/utils";
+
+interface ReadingOrderOverlayProps {
+  nodes: AccNode[];
+  index: number;
+}
+
+const BADGE_SIZE = 18;
+
+export function ReadingOrderOverlay({
+  nodes,
+  index,
+}: ReadingOrderOverlayProps): JSX.Element {
+  const [rects, setRects] = useState<DOMRect[]>([]);
+
+  // Badges are in viewport coordinates, so re-measure as the page moves
+  useEffect(() => {
+    let frame = 0;
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() =>
+        setRects(nodes.map((n) => n.el.getBoundingClientRect()))
+      );
+    };
+    measure();
+    window.addEventListener("scroll", measure, true);
+    window.addEventListener("resize", measure);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", measure, true);
+      window.removeEventListener("resize", measure);
+    };
+  }, [nodes]);
+
+  const jumps = useMemo(
+    () => (rects.length === nodes.length ? findOrderJumps(nodes, rects) : []),
+    [nodes, rects]
+  );
+  const jumpAt = useMemo(
+    () => new Map(jumps.map((j) => [j.index, j])),
+    [jumps]
+  );
+
+  // Badge anchors (top-left corner of each node), in reading order
+  const points = rects
+    .map((rect, i) => ({ i, x: rect.left, y: rect.top, shown: hasBox(rect) }))
+    .filter((p) => p.shown);
+
+  return (
+    <div style={overlayStyle} aria-hidden="true">
+      <svg width="100%" height="100%" style={{ position: "absolute" }}>
+        {points.slice(1).map((p, k) => {
+          const from = points[k]!;
+          const jump = jumpAt.has(p.i);
+          return (
+            <line
+              key={p.i}
+              x1={from.x}
+              y1={from.y}
+              x2={p.x}
+              y2={p.y}
+              stroke={jump ? "#dc2626" : "#7c3aed"}
+              strokeWidth={jump ? 2.5 : 1.5}
+              strokeDasharray={jump ? "6 4" : undefined}
+              opacity={0.7}
+            />
+          );
+        })}
+      </svg>
+
+      {points.map((p) => (
+        <span
+          key={p.i}
+          style={{
+            ...badgeStyle,
+            left: p.x - BADGE_SIZE / 2,
+            top: p.y - BADGE_SIZE / 2,
+            background: jumpAt.has(p.i) ? "#dc2626" : "#7c3aed",
+            outline: p.i === index ? "3px solid #facc15" : undefined,
+          }}
+        >
+          {p.i + 1}
+        </span>
+      ))}
+
+      <div style={legendStyle}>
+        <strong>Reading order</strong>: {nodes.length} nodes,{" "}
+        {jumps.length
+          ? `${jumps.length} jump${
+              jumps.length === 1 ? "" : "s"
+            } against the layout`
+          : "follows the layout"}
+        {jumps.slice(0, 8).map((j) => (
+          <div key={j.index}>
+            {j.from + 1} → {j.index + 1}: {j.direction}
+            {j.causes.length ? ` (${j.causes.join(", ")})` : ""}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+// Above the page, below the screen curtain and the HUD
+const overlayStyle: React.CSSProperties = {
+  position: "fixed",
+  inset: 0,
+  zIndex: 2147483645,
+  pointerEvents: "none",
+  fontFamily: "system-ui, sans-serif",
+};
+
+const badgeStyle: React.CSSProperties = {
+  position: "absolute",
+  minWidth: BADGE_SIZE,
+  height: BADGE_SIZE,
+  padding: "0 4px",
+  boxSizing: "border-box",
+  borderRadius: BADGE_SIZE / 2,
+  color: "#fff",
+  fontSize: 11,
+  fontWeight: 700,
+  lineHeight: `${BADGE_SIZE}px`,
+  textAlign: "center",
+  boxShadow: "0 1px 3px rgba(0, 0, 0, 0.4)",
+};
+
+const legendStyle: React.CSSProperties = {
+  position: "absolute",
+  left: 12,
+  bottom: 12,
+  maxWidth: 360,
+  background: "rgba(17, 24, 39, 0.85)",
+  color: "#f9fafb",
+  fontSize: 12,
+  lineHeight: 1.5,
+  borderRadius: 8,
+  padding: "6px 10px",
+};
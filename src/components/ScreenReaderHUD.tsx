@@ -5,32 +5,161 @@ import {
   useCallback,
   useEffect,
   useLayoutEffect,
+  useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
 } from "react";
 import { HiEye, HiQuestionMarkCircle } from "react-icons/hi";
 import {
+  HiAdjustmentsHorizontal,
+  HiClipboardDocumentCheck,
+  HiCog6Tooth,
   HiEyeSlash,
+  HiListBullet,
+  HiLockClosed,
+  HiNumberedList,
+  HiQueueList,
   HiSpeakerWave,
   HiSpeakerXMark,
+  HiSquares2X2,
   HiXMark,
 } from "react-icons/hi2";
+import { publishAnnouncement, useControlApi } from "../hooks/useControlApi";
 import { useScreenReaderCore } from "../hooks/useScreenReaderSimulator";
 import { useVisualViewport } from "../hooks/useVisualViewport";
-import { speak } from "../utils/utils";
+import { type CommandId, formatKeys, resolveKeymap } from "../utils/keymap";
+import { PROFILES, type ProfileId } from "../utils/profiles";
+import {
+  getSettings,
+  subscribeSettings,
+  updateSettings,
+} from "../utils/settings";
+import { speechQueue } from "../utils/speechQueue";
+import { AuditPanel } from "./AuditPanel";
+import { BraillePanel } from "./BraillePanel";
+import { EarconPanel } from "./EarconPanel";
+import { ElementsListPanel } from "./ElementsListPanel";
+import { InspectorPanel } from "./InspectorPanel";
+import { KeyboardTrapPanel } from "./KeyboardTrapPanel";
+import { KeymapPanel } from "./KeymapPanel";
+import { ReadingOrderOverlay } from "./ReadingOrderOverlay";
+import { SettingsPanel } from "./SettingsPanel";
+import { SpeechQueuePanel } from "./SpeechQueuePanel";
 
 export function ScreenReaderHUD(): JSX.Element | null {
-  const [hudOpen, setHudOpen] = useState(true);
-  const [showHelp, setShowHelp] = useState(false); // Default closed on mobile
-  const [curtainActive, setCurtainActive] = useState(true);
+  const settings = useSyncExternalStore(subscribeSettings, getSettings);
+  const { hudOpen, showHelp, profile } = settings;
+  const keymap = useMemo(
+    () => resolveKeymap(settings.keymap),
+    [settings.keymap]
+  );
+  const setHudOpen = (open: boolean) => updateSettings({ hudOpen: open });
+  const [showSettings, setShowSettings] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [showTraps, setShowTraps] = useState(false);
+  const [showInspector, setShowInspector] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showBraille, setShowBraille] = useState(false);
+  const [showElements, setShowElements] = useState(false);
+  const [showOrder, setShowOrder] = useState(false);
+  const [curtainActive, setCurtainActive] = useState(settings.curtain);
   useVisualViewport();
 
+  const toggleElementsList = useCallback(
+    () => setShowElements((open) => !open),
+    []
+  );
+
   // Ref for the fixed container
   const containerRef = useRef<HTMLDivElement>(null);
+  const core = useScreenReaderCore({
+    lang: "en-US",
+    voiceURI: settings.voiceURI,
+    enabled: hudOpen,
+    profile,
+    verbosity: settings.verbosity,
+    punctuation: settings.punctuation,
+    defaultMuted: settings.muted,
+    onNarrate: publishAnnouncement,
+    onElementsList: toggleElementsList,
+    keymap: settings.keymap,
+    readerKey: settings.readerKey,
+    defaultQuickNav: settings.quickNav,
+  });
   const {
-    state: { muted, log },
-    actions: { focusPrev, focusNext, activateOrFocus, escapeAction, setMuted },
-  } = useScreenReaderCore({ lang: "en-US", enabled: hudOpen });
+    state: {
+      nodes,
+      index,
+      muted,
+      log,
+      mode,
+      reading,
+      focusWarnings,
+      quickNav,
+      passingNextKey,
+      readerKeyHeld,
+    },
+    actions: {
+      focusAt,
+      focusPrev,
+      focusNext,
+      activateOrFocus,
+      escapeAction,
+      sayAll,
+      stopSayAll,
+      setMuted,
+      setQuickNav,
+      clearFocusWarnings,
+    },
+  } = core;
+  useControlApi(core, hudOpen);
+
+  // Mute and quick navigation can also change from the keyboard
+  useEffect(() => {
+    if (muted !== getSettings().muted) updateSettings({ muted });
+  }, [muted]);
+  useEffect(() => {
+    if (quickNav !== getSettings().quickNav) updateSettings({ quickNav });
+  }, [quickNav]);
+  // ...and from the settings panel
+  useEffect(() => setMuted(settings.muted), [settings.muted, setMuted]);
+  useEffect(
+    () => setQuickNav(settings.quickNav),
+    [settings.quickNav, setQuickNav]
+  );
+
+  const keys = (id: CommandId) => formatKeys(keymap[id], settings.readerKey);
+
+  // What the next key press will do: pass to the page, complete a reader
+  // command, or quick-navigate (when single letters are on)
+  const keyMode = passingNextKey
+    ? {
+        label: "Pass key",
+        color: "#b45309",
+        hint: "The next key goes to the page",
+      }
+    : readerKeyHeld
+    ? {
+        label: settings.readerKey,
+        color: "#1d4ed8",
+        hint: "Screen reader key held: press a command key",
+      }
+    : quickNav
+    ? {
+        label: "Quick keys",
+        color: "#4b5563",
+        hint: `Single letters navigate (${keys(
+          "toggleQuickNav"
+        )} to turn off, ${keys("passNextKey")} to pass one key through)`,
+      }
+    : {
+        label: "Page keys",
+        color: "#9ca3af",
+        hint: `Single letters go to the page (${keys(
+          "toggleQuickNav"
+        )} to turn quick navigation on)`,
+      };
 
   const [width, setWidth] = useState<number>(window.innerWidth);
 
@@ -163,12 +292,29 @@ export function ScreenReaderHUD(): JSX.Element | null {
         </div>
       )}
 
+      {showOrder && <ReadingOrderOverlay nodes={nodes} index={index} />}
+
       {/* Attach ref here to measure height */}
       <div ref={containerRef} className="srs-hud-container" aria-hidden="true">
         {/* Header */}
         <div style={headerStyle}>
           <strong style={{ fontWeight: 600 }}>Screen Reader</strong>
-          <div style={{ marginLeft: "auto", display: "flex", gap: 4 }}>
+          <span
+            style={{
+              ...modeBadgeStyle,
+              background: mode === "focus" ? "#0f766e" : "#7c3aed",
+            }}
+            title={`${keys("toggleMode")} to switch`}
+          >
+            {mode === "focus" ? "Focus" : "Browse"}
+          </span>
+          <span
+            style={{ ...modeBadgeStyle, background: keyMode.color }}
+            title={keyMode.hint}
+          >
+            {keyMode.label}
+          </span>
+          <div style={headerButtonsStyle}>
             <button
               onClick={() => setCurtainActive(!curtainActive)}
               style={{
@@ -182,7 +328,91 @@ export function ScreenReaderHUD(): JSX.Element | null {
             </button>
 
             <button
-              onClick={() => setShowHelp(!showHelp)}
+              onClick={() => setShowQueue(!showQueue)}
+              style={{ ...iconBtn, color: showQueue ? "#7c3aed" : "#6b7280" }}
+              title="Speech & Sound Cues"
+              type="button"
+            >
+              <HiAdjustmentsHorizontal size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowElements(!showElements)}
+              style={{
+                ...iconBtn,
+                color: showElements ? "#7c3aed" : "#6b7280",
+              }}
+              title={`Elements List (${keys("elementsList")})`}
+              type="button"
+            >
+              <HiListBullet size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowBraille(!showBraille)}
+              style={{
+                ...iconBtn,
+                color: showBraille ? "#7c3aed" : "#6b7280",
+              }}
+              title="Braille Display"
+              type="button"
+            >
+              <HiSquares2X2 size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowOrder(!showOrder)}
+              style={{ ...iconBtn, color: showOrder ? "#7c3aed" : "#6b7280" }}
+              title="Reading Order Overlay"
+              type="button"
+            >
+              <HiNumberedList size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowInspector(!showInspector)}
+              style={{
+                ...iconBtn,
+                color: showInspector ? "#7c3aed" : "#6b7280",
+              }}
+              title="Accessibility Tree Inspector"
+              type="button"
+            >
+              <HiQueueList size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowAudit(!showAudit)}
+              style={{ ...iconBtn, color: showAudit ? "#7c3aed" : "#6b7280" }}
+              title="Accessibility Audit"
+              type="button"
+            >
+              <HiClipboardDocumentCheck size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowTraps(!showTraps)}
+              style={{ ...iconBtn, color: showTraps ? "#7c3aed" : "#6b7280" }}
+              title="Keyboard Trap Detector"
+              type="button"
+            >
+              <HiLockClosed size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              style={{
+                ...iconBtn,
+                color: showSettings ? "#7c3aed" : "#6b7280",
+              }}
+              title="Settings"
+              type="button"
+            >
+              <HiCog6Tooth size={20} />
+            </button>
+
+            <button
+              onClick={() => updateSettings({ showHelp: !showHelp })}
               style={{ ...iconBtn, color: showHelp ? "#7c3aed" : "#6b7280" }}
               title="Keyboard Shortcuts"
               type="button"
@@ -202,25 +432,51 @@ export function ScreenReaderHUD(): JSX.Element | null {
         </div>
 
         {/* Shortcuts Panel */}
-        {showHelp && (
-          <div style={helpPanelStyle}>
-            <div style={helpGrid}>
-              <KeyRow k="H" label="Headings" />
-              <KeyRow k="B" label="Buttons" />{" "}
-              {/* <KeyRow k="T" label="Tables" />
-              <KeyRow k="L" label="Links" /> */}
-              <KeyRow k="F" label="Forms" />
-              <KeyRow k="G" label="Graphics" />
-              {/* <KeyRow k="D" label="Landmarks" /> */}
-              <KeyRow k="Space" label="Activate" />
-              <KeyRow k="Esc" label="Exit Focus" />
-            </div>
-            <small style={{ display: "block", marginTop: 8, color: "#666" }}>
-              <strong>Shift</strong> + Key to move backwards.
-            </small>
-          </div>
+        {showHelp && <KeymapPanel />}
+
+        {/* Settings Panel */}
+        {showSettings && <SettingsPanel defaultLang="en-US" />}
+
+        {/* Speech Queue Panel */}
+        {showQueue && (
+          <>
+            <SpeechQueuePanel />
+            <EarconPanel />
+          </>
+        )}
+
+        {/* Elements List */}
+        {showElements && (
+          <ElementsListPanel
+            nodes={nodes}
+            onSelect={(i) => {
+              setShowElements(false);
+              focusAt(i);
+            }}
+          />
+        )}
+
+        {/* Braille Display */}
+        {showBraille && (
+          <BraillePanel
+            nodes={nodes}
+            index={index}
+            onFocus={focusAt}
+            onActivate={activateOrFocus}
+          />
         )}
 
+        {/* Inspector Panel */}
+        {showInspector && (
+          <InspectorPanel nodes={nodes} index={index} onSelect={focusAt} />
+        )}
+
+        {/* Audit Panel */}
+        {showAudit && <AuditPanel nodes={nodes} onSelect={focusAt} />}
+
+        {/* Keyboard Trap Detector */}
+        {showTraps && <KeyboardTrapPanel nodes={nodes} onSelect={focusAt} />}
+
         {/* Controls */}
         <div
           style={{
@@ -232,25 +488,31 @@ export function ScreenReaderHUD(): JSX.Element | null {
         >
           <ControlButton
             label="Previous"
-            sub={isMobile ? "Swipe Left" : "Left Arrow"}
+            sub={isMobile ? "Swipe Left" : keys("prevElement")}
             onClick={focusPrev}
           />
           <ControlButton
             label="Next"
-            sub={isMobile ? "Swipe Right" : "Right Arrow"}
+            sub={isMobile ? "Swipe Right" : keys("nextElement")}
             onClick={focusNext}
           />
           <ControlButton
             label="Edit/Select"
-            sub={isMobile ? "Double Tap" : "Enter/Space"}
+            sub={isMobile ? "Double Tap" : keys("activate")}
             onClick={activateOrFocus}
             highlight
           />
           <ControlButton
             label="Stop Editing"
-            sub={isMobile ? "Tap Here" : "Esc"}
+            sub={isMobile ? "Tap Here" : keys("exit")}
             onClick={escapeAction}
           />
+          <ControlButton
+            label={reading ? "Stop Reading" : "Say All"}
+            sub={isMobile ? "Two-Finger Swipe Down" : keys("sayAll")}
+            onClick={reading ? stopSayAll : sayAll}
+            style={{ gridColumn: "1 / -1" }}
+          />
         </div>
 
         {/* Narration Toggle */}
@@ -263,8 +525,8 @@ export function ScreenReaderHUD(): JSX.Element | null {
               e.target.dispatchEvent(new Event("click"));
             }}
             onClick={() => {
-              if (!muted) window.speechSynthesis?.cancel();
-              else speak("Unmuted");
+              if (!muted) speechQueue.clear();
+              else speechQueue.enqueue("Unmuted");
               setMuted(!muted);
             }}
             aria-pressed={muted}
@@ -278,6 +540,54 @@ export function ScreenReaderHUD(): JSX.Element | null {
           </button>
         </div>
 
+        {/* Profile Picker */}
+        <div style={narrationBarStyle}>
+          <label
+            htmlFor="srs-profile"
+            style={{ fontWeight: 600, fontSize: 13 }}
+          >
+            Screen Reader Profile
+          </label>
+          <select
+            id="srs-profile"
+            value={profile}
+            onChange={(e) =>
+              updateSettings({ profile: e.target.value as ProfileId })
+            }
+            style={selectStyle}
+          >
+            {Object.values(PROFILES).map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Focus Warnings */}
+        {focusWarnings.length > 0 && (
+          <div style={warningsStyle}>
+            <div style={{ display: "flex", alignItems: "center" }}>
+              <strong style={{ fontWeight: 600, fontSize: 13 }}>
+                Focus Warnings
+              </strong>
+              <button
+                onClick={clearFocusWarnings}
+                className="srs-mute-btn"
+                style={{ marginLeft: "auto" }}
+                type="button"
+              >
+                <span className="srs-mute-label">Clear</span>
+              </button>
+            </div>
+            <ul style={warningListStyle}>
+              {focusWarnings.map((w) => (
+                <li key={w.id}>{w.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Logs */}
         <div style={logContainerStyle}>
           {log.length > 0 ? (
@@ -293,23 +603,6 @@ export function ScreenReaderHUD(): JSX.Element | null {
 
 // --- SUBCOMPONENTS & STYLES ---
 
-function KeyRow({ k, label }: { k: string; label: string }) {
-  return (
-    <div
-      style={{
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "space-between",
-      }}
-    >
-      <span style={{ fontSize: 13, color: "#374151" }}>{label}</span>
-      <kbd className="srs-kbd" style={{ fontSize: 12 }}>
-        {k}
-      </kbd>
-    </div>
-  );
-}
-
 interface ControlButtonProps {
   label: string;
   sub: string;
@@ -383,18 +676,6 @@ const curtainContentStyle: React.CSSProperties = {
   padding: 20,
 };
 
-const helpPanelStyle: React.CSSProperties = {
-  background: "#f9fafb",
-  padding: "12px 16px",
-  borderBottom: "1px solid #e5e7eb",
-};
-
-const helpGrid: React.CSSProperties = {
-  display: "grid",
-  gridTemplateColumns: "1fr 1fr",
-  gap: "8px 24px",
-};
-
 const headerStyle: React.CSSProperties = {
   display: "flex",
   alignItems: "center",
@@ -403,6 +684,25 @@ const headerStyle: React.CSSProperties = {
   background: "#fff",
 };
 
+const modeBadgeStyle: React.CSSProperties = {
+  marginLeft: 8,
+  color: "#fff",
+  fontSize: 10,
+  fontWeight: 600,
+  borderRadius: 4,
+  padding: "1px 5px",
+  textTransform: "uppercase",
+};
+
+// Wraps onto a second row once there are more tools than fit
+const headerButtonsStyle: React.CSSProperties = {
+  marginLeft: "auto",
+  display: "flex",
+  flexWrap: "wrap",
+  justifyContent: "flex-end",
+  gap: 4,
+};
+
 const iconBtn: React.CSSProperties = {
   border: 0,
   background: "transparent",
@@ -424,6 +724,34 @@ const narrationBarStyle: React.CSSProperties = {
   background: "#fff",
 };
 
+const selectStyle: React.CSSProperties = {
+  border: "1px solid #e5e7eb",
+  background: "#f3f4f6",
+  color: "#374151",
+  borderRadius: 8,
+  padding: "6px 10px",
+  fontSize: 13,
+  fontWeight: 500,
+  cursor: "pointer",
+};
+
+const warningsStyle: React.CSSProperties = {
+  padding: "10px 16px",
+  background: "#fffbeb",
+  borderTop: "1px solid #fde68a",
+  color: "#92400e",
+};
+
+const warningListStyle: React.CSSProperties = {
+  margin: "6px 0 0",
+  paddingLeft: 18,
+  fontSize: 12,
+  display: "grid",
+  gap: 4,
+  maxHeight: 120,
+  overflowY: "auto",
+};
+
 const logContainerStyle: React.CSSProperties = {
   padding: "12px",
   background: "#f9fafb",
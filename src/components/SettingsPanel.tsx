@@ -0,0 +1,236 @@
+// src/components/SettingsPanel.tsx
+
+import { type JSX, useSyncExternalStore } from "react";
+import { useVoices } from "../hooks/useVoices";
+import { READER_KEYS, type ReaderKey } from "../utils/keymap";
+import {
+  getSettings,
+  PUNCTUATION_LEVELS,
+  resetSettings,
+  subscribeSettings,
+  updateSettings,
+  VERBOSITY_LEVELS,
+} from "../utils/settings";
+import { speechQueue } from "../utils/speechQueue";
+
+interface SettingsPanelProps {
+  /** Shown for the automatic voice, e.g. "en-US". */
+  defaultLang: string;
+}
+
+export function SettingsPanel({
+  defaultLang,
+}: SettingsPanelProps): JSX.Element {
+  const settings = useSyncExternalStore(subscribeSettings, getSettings);
+  const voices = useVoices();
+  const chosen = voices.find((v) => v.voiceURI === settings.voiceURI);
+
+  const preview = () => {
+    const name = chosen?.name ?? `the default ${defaultLang} voice`;
+    speechQueue.enqueue(`This is ${name}.`, "assertive", {
+      voice: chosen ?? null,
+      lang: chosen?.lang ?? defaultLang,
+    });
+  };
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>Settings</strong>
+        <button
+          onClick={resetSettings}
+          className="srs-mute-btn"
+          style={{ marginLeft: "auto" }}
+          type="button"
+        >
+          <span className="srs-mute-label">Reset</span>
+        </button>
+      </div>
+
+      <label style={fieldStyle}>
+        <span>Voice</span>
+        <div style={{ display: "flex", gap: 6 }}>
+          <select
+            value={settings.voiceURI ?? ""}
+            onChange={(e) =>
+              updateSettings({ voiceURI: e.target.value || null })
+            }
+            style={{ ...selectStyle, flex: 1, minWidth: 0 }}
+          >
+            <option value="">Automatic ({defaultLang})</option>
+            {voices.map((v) => (
+              <option key={v.voiceURI} value={v.voiceURI}>
+                {v.name} ({v.lang})
+              </option>
+            ))}
+          </select>
+          <button onClick={preview} className="srs-mute-btn" type="button">
+            <span className="srs-mute-label">Preview</span>
+          </button>
+        </div>
+      </label>
+
+      <div style={slidersStyle}>
+        <Slider
+          label="Rate"
+          value={settings.rate}
+          min={0.5}
+          max={2}
+          onChange={(rate) => updateSettings({ rate })}
+        />
+        <Slider
+          label="Pitch"
+          value={settings.pitch}
+          min={0}
+          max={2}
+          onChange={(pitch) => updateSettings({ pitch })}
+        />
+      </div>
+
+      <div style={slidersStyle}>
+        <label style={fieldStyle}>
+          <span>Verbosity</span>
+          <select
+            value={settings.verbosity}
+            onChange={(e) =>
+              updateSettings({
+                verbosity: e.target.value as (typeof VERBOSITY_LEVELS)[number],
+              })
+            }
+            style={selectStyle}
+          >
+            {VERBOSITY_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {capitalize(level)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          <span>Punctuation</span>
+          <select
+            value={settings.punctuation}
+            onChange={(e) =>
+              updateSettings({
+                punctuation: e.target
+                  .value as (typeof PUNCTUATION_LEVELS)[number],
+              })
+            }
+            style={selectStyle}
+          >
+            {PUNCTUATION_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {capitalize(level)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label style={{ ...fieldStyle, display: "flex", alignItems: "center" }}>
+        <input
+          type="checkbox"
+          checked={settings.curtain}
+          onChange={(e) => updateSettings({ curtain: e.target.checked })}
+        />
+        Start with the screen curtain on
+      </label>
+
+      <div style={slidersStyle}>
+        <label style={fieldStyle}>
+          <span>Screen reader key</span>
+          <select
+            value={settings.readerKey}
+            onChange={(e) =>
+              updateSettings({ readerKey: e.target.value as ReaderKey })
+            }
+            style={selectStyle}
+          >
+            {READER_KEYS.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ ...fieldStyle, display: "flex", alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={settings.quickNav}
+            onChange={(e) => updateSettings({ quickNav: e.target.checked })}
+          />
+          Single-letter navigation
+        </label>
+      </div>
+      {settings.readerKey === "CapsLock" && (
+        <div style={{ ...fieldStyle, color: "#6b7280" }}>
+          Browsers cannot stop Caps Lock from toggling, so it may stay on after
+          a command.
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+function Slider({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label style={fieldStyle}>
+      <span>
+        {label} <strong>{value.toFixed(1)}</strong>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={0.1}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </label>
+  );
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const fieldStyle: React.CSSProperties = {
+  display: "grid",
+  gap: 4,
+  fontSize: 12,
+  color: "#374151",
+  marginTop: 8,
+};
+
+const slidersStyle: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "1fr 1fr",
+  gap: "0 24px",
+};
+
+const selectStyle: React.CSSProperties = {
+  border: "1px solid #e5e7eb",
+  background: "#fff",
+  color: "#374151",
+  borderRadius: 6,
+  padding: "4px 6px",
+  fontSize: 12,
+};
@@ -0,0 +1,131 @@
+// src/components/SpeechQueuePanel.tsx
+
+import { type JSX, useSyncExternalStore } from "react";
+import {
+  type SpeechEntry,
+  type SpeechKind,
+  speechQueue,
+} from "../utils/speechQueue";
+
+export function SpeechQueuePanel(): JSX.Element {
+  const { current, queue, paused } = useSyncExternalStore(
+    speechQueue.subscribe,
+    speechQueue.getSnapshot
+  );
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <strong style={{ fontWeight: 600, fontSize: 13 }}>Speech Queue</strong>
+        <button
+          onClick={() => (paused ? speechQueue.resume() : speechQueue.pause())}
+          className="srs-mute-btn"
+          style={{ marginLeft: "auto" }}
+          type="button"
+        >
+          <span className="srs-mute-label">{paused ? "Resume" : "Pause"}</span>
+        </button>
+        <button
+          onClick={speechQueue.clear}
+          className="srs-mute-btn"
+          type="button"
+        >
+          <span className="srs-mute-label">Clear</span>
+        </button>
+      </div>
+
+      <ol style={listStyle}>
+        {current && <QueueRow entry={current} speaking />}
+        {queue.map((entry) => (
+          <QueueRow key={entry.id} entry={entry} />
+        ))}
+        {!current && !queue.length && (
+          <li style={{ fontSize: 12, color: "#6b7280" }}>Nothing queued</li>
+        )}
+      </ol>
+    </div>
+  );
+}
+
+// --- SUBCOMPONENTS & STYLES ---
+
+function QueueRow({
+  entry,
+  speaking,
+}: {
+  entry: SpeechEntry;
+  speaking?: boolean;
+}) {
+  return (
+    <li
+      style={{
+        ...rowStyle,
+        borderColor: speaking ? "#7c3aed" : "#e5e7eb",
+      }}
+    >
+      <span style={{ ...badgeStyle, background: KIND_COLORS[entry.kind] }}>
+        {entry.kind}
+      </span>
+      <span style={{ flex: 1 }}>{entry.text}</span>
+      {entry.meta && (
+        <span style={metaStyle}>
+          {Object.entries(entry.meta)
+            .map(([key, value]) => `${key}: ${value}`)
+            .join(", ")}
+        </span>
+      )}
+      {speaking && (
+        <span style={{ fontSize: 11, color: "#7c3aed" }}>speaking</span>
+      )}
+    </li>
+  );
+}
+
+const KIND_COLORS: Record<SpeechKind, string> = {
+  assertive: "#b91c1c",
+  navigation: "#7c3aed",
+  typing: "#0f766e",
+  polite: "#4b5563",
+};
+
+const panelStyle: React.CSSProperties = {
+  background: "#f9fafb",
+  padding: "12px 16px",
+  borderBottom: "1px solid #e5e7eb",
+};
+
+const listStyle: React.CSSProperties = {
+  listStyle: "none",
+  margin: "8px 0 0",
+  padding: 0,
+  display: "grid",
+  gap: 4,
+  maxHeight: 160,
+  overflowY: "auto",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+  border: "1px solid",
+  background: "#fff",
+  borderRadius: 6,
+  padding: "4px 8px",
+  fontSize: 12,
+};
+
+const metaStyle: React.CSSProperties = {
+  fontSize: 11,
+  color: "#6b7280",
+  whiteSpace: "nowrap",
+};
+
+const badgeStyle: React.CSSProperties = {
+  color: "#fff",
+  fontSize: 10,
+  fontWeight: 600,
+  borderRadius: 4,
+  padding: "1px 5px",
+  textTransform: "uppercase",
+};
@@ -5,6 +5,11 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import { ScreenReaderHUD } from "./components/ScreenReaderHUD";
 import styleText from "./index.css?inline"; // Vite will inject CSS as string
+import {
+  type ChromeStorageArea,
+  connectSettingsStorage,
+  createChromeSettingsStorage,
+} from "./utils/settings";
 
 const HOST_ID = "srs-simulator-host";
 
@@ -22,14 +27,24 @@ if (!document.getElementById(HOST_ID)) {
   style.textContent = styleText;
   shadow.appendChild(style);
 
-  // 4. Mount React
+  // 4. Load Settings (extension storage is shared across sites)
+  const area = (
+    globalThis as { chrome?: { storage?: { local?: ChromeStorageArea } } }
+  ).chrome?.storage?.local;
+  const ready = area
+    ? connectSettingsStorage(createChromeSettingsStorage(area))
+    : Promise.resolve();
+
+  // 5. Mount React
   const root = document.createElement("div");
   shadow.appendChild(root);
 
-  createRoot(root).render(
-    <StrictMode>
-      <ScreenReaderHUD />
-      <Analytics />
-    </StrictMode>
+  void ready.finally(() =>
+    createRoot(root).render(
+      <StrictMode>
+        <ScreenReaderHUD />
+        <Analytics />
+      </StrictMode>
+    )
   );
 }
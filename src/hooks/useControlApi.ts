@@ -0,0 +1,166 @@
+// src/hooks/useControlApi.ts
+import { useEffect, useRef } from "react";
+import type { AccNode } from "../utils/utils";
+import type {
+  FocusWarningKind,
+  ScreenReaderCore,
+} from "./useScreenReaderSimulator";
+
+// =========================================
+// 0. Types
+// =========================================
+
+export const SRS_API_VERSION = 1;
+
+export interface SrsAnnouncement {
+  text: string;
+  timestamp: number;
+}
+
+/** Serializable view of an AccNode, safe to return from page.evaluate(). */
+export interface SrsNodeSnapshot {
+  index: number;
+  role: string;
+  name: string;
+  description?: string;
+  value?: string;
+  states: string[];
+  pos?: { pos: number; size: number };
+  coords?: { row: number; col: number };
+  depth: number;
+}
+
+/** A focus warning without its element, safe to return from page.evaluate(). */
+export interface SrsFocusWarning {
+  kind: FocusWarningKind;
+  message: string;
+  timestamp: number;
+}
+
+type AnnouncementListener = (announcement: SrsAnnouncement) => void;
+
+/**
+ * Global control surface for E2E tools (Playwright, Cypress).
+ * Navigation methods resolve once React has committed the new cursor
+ * position, so `await __srs.next(); __srs.getCurrent()` is consistent.
+ */
+export interface SrsApi {
+  version: typeof SRS_API_VERSION;
+  next: () => Promise<void>;
+  prev: () => Promise<void>;
+  activate: () => Promise<void>;
+  focusAt: (index: number) => Promise<void>;
+  seek: (role: string, forward?: boolean) => Promise<void>;
+  getTree: () => SrsNodeSnapshot[];
+  getCurrent: () => SrsNodeSnapshot | null;
+  /** Narration log, newest first (as shown in the HUD). */
+  getLog: () => string[];
+  /** Focus losses and focus moves outside the tree, newest first. */
+  getFocusWarnings: () => SrsFocusWarning[];
+  on: (event: "announce", listener: AnnouncementListener) => () => void;
+  off: (event: "announce", listener: AnnouncementListener) => void;
+}
+
+declare global {
+  interface Window {
+    __srs?: SrsApi;
+  }
+}
+
+// =========================================
+// 1. Announcement Stream
+// =========================================
+
+const listeners = new Set<AnnouncementListener>();
+
+/**
+ * Pass as `onNarrate` to `useScreenReaderCore`. Every announcement reaches
+ * `__srs.on("announce")` listeners and is dispatched on window as an
+ * "srs:announce" CustomEvent.
+ */
+export const publishAnnouncement = (text: string): void => {
+  const announcement: SrsAnnouncement = { text, timestamp: Date.now() };
+  listeners.forEach((listener) => listener(announcement));
+  window.dispatchEvent(
+    new CustomEvent<SrsAnnouncement>("srs:announce", { detail: announcement })
+  );
+};
+
+// =========================================
+// 2. Helpers
+// =========================================
+
+const toSnapshot = (node: AccNode, index: number): SrsNodeSnapshot => ({
+  index,
+  role: node.role,
+  name: node.name,
+  description: node.description,
+  value: node.value,
+  states: [...node.states],
+  pos: node.pos,
+  coords: node.coords,
+  depth: node.depth,
+});
+
+// Upper bound for actions that change nothing (e.g. "next" on the last node)
+const COMMIT_TIMEOUT_MS = 100;
+
+// =========================================
+// 3. Hook
+// =========================================
+
+export function useControlApi(core: ScreenReaderCore, enabled = true) {
+  // Methods always read the latest render, without reinstalling the global.
+  // Assigned during render so it is current before effects are flushed.
+  const coreRef = useRef(core);
+  coreRef.current = core;
+
+  // Resolved after the render that follows an action has committed
+  const commitWaiters = useRef<(() => void)[]>([]);
+  useEffect(() => {
+    commitWaiters.current.splice(0).forEach((done) => done());
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const run = (action: (c: ScreenReaderCore) => void) =>
+      new Promise<void>((done) => {
+        commitWaiters.current.push(done);
+        setTimeout(done, COMMIT_TIMEOUT_MS);
+        action(coreRef.current);
+      });
+
+    const api: SrsApi = {
+      version: SRS_API_VERSION,
+      next: () => run((c) => c.actions.focusNext()),
+      prev: () => run((c) => c.actions.focusPrev()),
+      activate: () => run((c) => c.actions.activateOrFocus()),
+      focusAt: (index) => run((c) => c.actions.focusAt(index)),
+      seek: (role, forward = true) =>
+        run((c) => c.actions.seek(forward, role, (n) => n.role === role)),
+      getTree: () => coreRef.current.state.nodes.map(toSnapshot),
+      getCurrent: () => {
+        const { current, index } = coreRef.current.state;
+        return current ? toSnapshot(current, index) : null;
+      },
+      getLog: () => [...coreRef.current.state.log],
+      getFocusWarnings: () =>
+        coreRef.current.state.focusWarnings.map(
+          ({ kind, message, timestamp }) => ({ kind, message, timestamp })
+        ),
+      on: (_event, listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      off: (_event, listener) => {
+        listeners.delete(listener);
+      },
+    };
+
+    window.__srs = api;
+    return () => {
+      if (window.__srs === api) delete window.__srs;
+    };
+  }, [enabled]);
+}
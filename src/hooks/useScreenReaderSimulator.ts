@@ -1,24 +1,84 @@
 // src/hooks/useScreenReaderSimulator.ts
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { ROLE_MAP } from "../utils/roleMap";
+import {
+  describeContextChange,
+  formatActiveDescendant,
+  formatAnnouncement,
+  formatNavigation,
+  formatTableMove,
+  getHeadingLevel,
+} from "../utils/announce";
+import { type EarconId, getEarconSnapshot, playEarcon } from "../utils/earcons";
+import { isTabScanRunning } from "../utils/keyboardTraps";
+import {
+  type CommandId,
+  createKeyLookup,
+  DEFAULT_READER_KEY,
+  eventToBinding,
+  getCommand,
+  getReaderKeyState,
+  isModifierKey,
+  type KeymapOverrides,
+  type QuickNavTarget,
+  type ReaderKey,
+  resolveKeymap,
+} from "../utils/keymap";
+import {
+  createLiveRegionEngine,
+  type LiveAnnouncement,
+} from "../utils/liveRegions";
+import {
+  DEFAULT_PROFILE,
+  PROFILES,
+  type ProfileId,
+  VERBOSITY_OMITS,
+  type Verbosity,
+} from "../utils/profiles";
+import {
+  type SpeechEntry,
+  type SpeechKind,
+  speechQueue,
+} from "../utils/speechQueue";
+import { findTableCell, moveTableCell } from "../utils/tables";
+import {
+  describeCharacter,
+  type Granularity,
+  getNodeText,
+  type PunctuationLevel,
+  segmentText,
+  speakPunctuation,
+  stepSegment,
+} from "../utils/textNavigation";
 import {
   type AccNode,
   collectAccTree,
+  computeHierarchy,
   computeStates,
   computeValue,
-  speak,
+  createAccNode,
+  getActiveDescendant,
+  getActiveModal,
+  getEffectiveLang,
+  isFocusable,
+  isHidden,
+  isModalOpen,
+  requiresFocusMode,
 } from "../utils/utils";
+import { useVoices } from "./useVoices";
 
 // =========================================
 // 0. Configuration & Constants
 // =========================================
 
-type RotorOption = {
+/** Browse mode: the reader owns the keys. Focus mode: the widget does. */
+export type ReadingMode = "browse" | "focus";
+
+export type RotorOption = {
   label: string;
   predicate: ((n: AccNode) => boolean) | null;
 };
 
-const ROTOR_OPTIONS: RotorOption[] = [
+export const ROTOR_OPTIONS: RotorOption[] = [
   { label: "Default", predicate: null },
   { label: "Headings", predicate: (n) => n.role === "heading" },
   { label: "Buttons", predicate: (n) => n.role === "button" },
@@ -60,102 +120,184 @@ const ROTOR_OPTIONS: RotorOption[] = [
   },
 ];
 
-// =========================================
-// 1. Pure Helpers (Formatting)
-// =========================================
+/** Focus problems the simulator noticed while following focus. */
+export type FocusWarningKind = "focus-lost" | "outside-tree";
+
+export interface FocusWarning {
+  id: number;
+  kind: FocusWarningKind;
+  message: string;
+  /** The element focus was lost from, or moved to. */
+  el: HTMLElement;
+  timestamp: number;
+}
 
-const formatAnnouncement = (node: AccNode): string => {
-  const parts: string[] = [];
+/** Rotor lookup by name: "heading" -> Headings, "form field" -> Form Fields */
+export const findRotorOption = (label: string): RotorOption | undefined =>
+  ROTOR_OPTIONS.find(
+    (o) => o.predicate && o.label.toLowerCase().startsWith(label.toLowerCase())
+  );
 
-  // 1. State (Checkable)
-  if (["checkbox", "radio button", "switch"].includes(node.role)) {
-    const checkState = node.states.find((s) =>
-      /checked|unchecked|selected/.test(s)
+const rotorPredicate = (label: string) =>
+  ROTOR_OPTIONS.find((o) => o.label === label)!.predicate!;
+
+const headingLevel = (level: number) => (n: AccNode) =>
+  n.role === "heading" && getHeadingLevel(n.el) === level;
+
+// Quick navigation keys map to Rotor predicates, so 'h' behaves exactly like
+// Rotor "Headings" -> Swipe Down
+const QUICK_NAV_TARGETS: Record<
+  QuickNavTarget,
+  [string, (n: AccNode) => boolean]
+> = {
+  Heading: ["heading", rotorPredicate("Headings")],
+  Button: ["button", rotorPredicate("Buttons")],
+  Link: ["link", rotorPredicate("Links")],
+  Table: ["table", rotorPredicate("Tables")],
+  Graphic: ["graphic", rotorPredicate("Graphics")],
+  FormField: ["form field", rotorPredicate("Form Fields")],
+  Landmark: ["landmark", rotorPredicate("Landmarks")],
+  ListItem: ["list item", (n) => n.role === "listitem"],
+  Heading1: ["heading level 1", headingLevel(1)],
+  Heading2: ["heading level 2", headingLevel(2)],
+  Heading3: ["heading level 3", headingLevel(3)],
+  Heading4: ["heading level 4", headingLevel(4)],
+  Heading5: ["heading level 5", headingLevel(5)],
+  Heading6: ["heading level 6", headingLevel(6)],
+};
+
+const NO_OVERRIDES: KeymapOverrides = {};
+
+// The HUD's own controls (filters, pickers) are not screen reader input, nor
+// are the focus moves of a Tab order scan started from the HUD. The path, not
+// the target: in the extension's shadow root the target is the host element.
+const isHudEvent = (e: Event): boolean =>
+  isTabScanRunning() ||
+  e
+    .composedPath()
+    .some(
+      (n) => n instanceof Element && n.classList.contains("srs-hud-container")
     );
-    if (checkState) parts.push(checkState);
-  }
 
-  // 2. Name
-  if (node.name) parts.push(`"${node.name}"`);
-
-  // 3. Role
-  if (node.role && node.role !== "statictext") {
-    if (node.role === "heading") {
-      const levelAttr = node.el.getAttribute("aria-level");
-      const level = levelAttr
-        ? parseInt(levelAttr, 10)
-        : parseInt(node.el.tagName.substring(1), 10);
-      parts.push(`Heading${!isNaN(level) ? ` level ${level}` : ""}`);
-    } else {
-      const mappedRole = ROLE_MAP[node.role] || node.role;
-      parts.push(mappedRole.charAt(0).toUpperCase() + mappedRole.slice(1));
-    }
-  }
+const isFormField = rotorPredicate("Form Fields");
 
-  // 4. Description
-  if (node.description) parts.push(node.description);
-
-  // 5. Value / Placeholder
-  if (node.role === "textbox" || node.role === "combobox") {
-    const el = node.el as HTMLInputElement | HTMLTextAreaElement;
-    if (el.type === "password") {
-      parts.push("Password field");
-    } else if (el.value?.trim()) {
-      parts.push(`Value: ${el.value.trim()}`);
-    } else if (el.placeholder) {
-      parts.push(el.placeholder);
-    }
+// Checkboxes, switches and toggle buttons after activation
+const getToggleCue = (node: AccNode): EarconId | null => {
+  if (node.states.includes("checked") || node.states.includes("pressed")) {
+    return "toggleOn";
   }
-
-  // 6. Validation Error Messages
-  if (node.states.includes("invalid")) {
-    const el = node.el as HTMLInputElement;
-    if (el.validationMessage) {
-      parts.push(`Error: ${el.validationMessage}`);
-    } else {
-      const errId = el.getAttribute("aria-errormessage");
-      if (errId) {
-        const errEl = document.getElementById(errId);
-        if (errEl?.textContent) {
-          parts.push(`Error: ${errEl.textContent.trim()}`);
-        }
-      }
-    }
+  if (
+    node.states.includes("unchecked") ||
+    node.el.getAttribute("aria-pressed") === "false"
+  ) {
+    return "toggleOff";
   }
+  return null;
+};
 
-  // 7. Other States
-  const otherStates = node.states.filter(
-    (s) => !/checked|unchecked|selected|invalid/.test(s)
+// "Delete" button, or <div#app> for elements with no tree node
+// Focus can land on an element with no node of its own, like the
+// <main tabindex="-1"> a skip link targets: follow it to the first node
+// inside, else to the nearest node around it
+const findFocusedNode = (nodes: AccNode[], el: HTMLElement): number => {
+  const own = nodes.findIndex((n) => n.el === el);
+  if (own >= 0) return own;
+  const inside = nodes.findIndex((n) => el.contains(n.el));
+  if (inside >= 0) return inside;
+  // Document order puts the innermost ancestor last
+  let around = -1;
+  nodes.forEach((n, i) => {
+    if (n.el.contains(el)) around = i;
+  });
+  return around;
+};
+
+const describeElement = (el: HTMLElement, nodes: AccNode[]): string => {
+  const node = nodes.find((n) => n.el === el);
+  if (node?.name) return `"${node.name}" ${node.role}`;
+  return `<${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ""}>`;
+};
+
+// The ring marks the virtual cursor; only one element has it at a time
+const clearFocusRing = () =>
+  document.querySelectorAll(".srs-focus-ring").forEach((e) => {
+    e.classList.remove("srs-focus-ring");
+  });
+
+const showFocusRing = (
+  el: HTMLElement,
+  scroll: ScrollLogicalPosition | false = "center"
+) => {
+  clearFocusRing();
+  el.classList.add("srs-focus-ring");
+  // Optional call: jsdom (headless/tests) has no scrollIntoView
+  if (scroll) el.scrollIntoView?.({ block: scroll, behavior: "smooth" });
+};
+
+/**
+ * Puts the virtual cursor on `node` and returns it with its current states
+ * and value, which change without a tree rebuild. `ring` marks another
+ * element instead, like the table cell around the node.
+ */
+const placeCursor = (
+  node: AccNode,
+  {
+    ring = node.el,
+    scroll = "center",
+  }: { ring?: HTMLElement; scroll?: ScrollLogicalPosition | false } = {}
+): AccNode => {
+  showFocusRing(ring, scroll);
+  return {
+    ...node,
+    states: computeStates(node.el, node.role),
+    value: computeValue(node.el, node.role),
+  };
+};
+
+const primaryLanguage = (lang: string): string =>
+  lang.toLowerCase().split(/[-_]/)[0]!;
+
+const findVoiceForLang = (
+  voices: SpeechSynthesisVoice[],
+  lang: string
+): SpeechSynthesisVoice | null => {
+  // Platforms report both "zh-CN" and "zh_CN"
+  const normalize = (tag: string) => tag.toLowerCase().replace("_", "-");
+  const target = normalize(lang);
+  return (
+    voices.find((v) => normalize(v.lang) === target) ??
+    voices.find((v) => primaryLanguage(v.lang) === primaryLanguage(lang)) ??
+    null
   );
-  if (otherStates.length) parts.push(otherStates.join(", "));
+};
 
-  // 8. Table Coords
-  if (node.coords) {
-    parts.push(`row ${node.coords.row}, col ${node.coords.col}`);
+const languageName = (lang: string): string => {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(lang) ?? lang;
+  } catch {
+    return lang; // Not a valid BCP 47 tag
   }
-
-  return parts.join(", ");
 };
 
 // =========================================
-// 2. Sub-Hook: Speech Management
+// 1. Sub-Hook: Speech Management
 // =========================================
 
-function useSpeech(lang?: string) {
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [muted, setMuted] = useState(false);
+function useSpeech(
+  defaultLang?: string,
+  voiceURI?: string | null,
+  defaultMuted = false
+) {
+  const voices = useVoices();
+  const [muted, setMuted] = useState(defaultMuted);
   const [unlocked, setUnlocked] = useState(true);
 
-  useEffect(() => {
-    if (!("speechSynthesis" in window)) return;
-    const update = () => setVoices(window.speechSynthesis.getVoices());
-    update();
-    window.speechSynthesis.addEventListener("voiceschanged", update);
-    return () =>
-      window.speechSynthesis.removeEventListener("voiceschanged", update);
-  }, []);
+  // A voice picked in the settings also sets the reading language
+  const chosen = voices.find((v) => v.voiceURI === voiceURI) ?? null;
+  const lang = chosen?.lang ?? defaultLang;
 
   const voice = useMemo(() => {
+    if (chosen) return chosen;
     if (!lang || !voices.length) return null;
     const target = lang.toLowerCase();
 
@@ -173,27 +315,94 @@ function useSpeech(lang?: string) {
       if (found) return found;
     }
     return null;
-  }, [voices, lang]);
+  }, [chosen, voices, lang]);
+
+  // Languages already reported as missing a voice (warn once each)
+  const warnedLangs = useRef(new Set<string>());
 
   const narrate = useCallback(
-    (text: string, onLog?: (t: string) => void) => {
+    (
+      text: string,
+      onLog?: (t: string) => void,
+      {
+        kind = "navigation",
+        lang: textLang,
+        meta,
+        onend,
+      }: {
+        kind?: SpeechKind;
+        lang?: string;
+        meta?: SpeechEntry["meta"];
+        onend?: SpeechEntry["onend"];
+      } = {}
+    ) => {
       onLog?.(text);
-      console.log("spekaing");
-      if (unlocked && !muted) {
-        speak(text, { voice: voice || undefined, interrupt: true });
+      if (!unlocked || muted) {
+        // Nothing is spoken, but callers chaining on completion keep going
+        if (onend) setTimeout(() => onend("spoken"), 0);
+        return;
+      }
+
+      if (
+        !textLang ||
+        !lang ||
+        primaryLanguage(textLang) === primaryLanguage(lang)
+      ) {
+        speechQueue.enqueue(text, kind, { voice, meta, onend });
+        return;
       }
+
+      const match = findVoiceForLang(voices, textLang);
+      if (match) {
+        speechQueue.enqueue(text, kind, {
+          voice: match,
+          lang: textLang,
+          meta,
+          onend,
+        });
+        return;
+      }
+
+      // Voices load asynchronously: an empty list is not a missing voice
+      const primary = primaryLanguage(textLang);
+      if (voices.length && !warnedLangs.current.has(primary)) {
+        warnedLangs.current.add(primary);
+        const warning = `No ${languageName(
+          textLang
+        )} voice, reading in ${languageName(lang)}`;
+        onLog?.(warning);
+        // One utterance, so the text cannot supersede its own warning
+        speechQueue.enqueue(`${warning}. ${text}`, kind, {
+          voice,
+          meta,
+          onend,
+        });
+        return;
+      }
+      speechQueue.enqueue(text, kind, { voice, meta, onend });
+    },
+    [unlocked, muted, voice, voices, lang]
+  );
+
+  // Non-speech cues follow the same mute/unlock gate as narration
+  const cue = useCallback(
+    (id: EarconId) => {
+      if (unlocked && !muted) playEarcon(id);
     },
-    [unlocked, muted, voice]
+    [unlocked, muted]
   );
 
-  return { muted, setMuted, unlocked, setUnlocked, narrate };
+  return { muted, setMuted, unlocked, setUnlocked, narrate, cue };
 }
 
 // =========================================
-// 3. Sub-Hook: Tree & Live Regions˚
+// 2. Sub-Hook: Tree & Live Regions˚
 // =========================================
 
-function useLiveTree(enabled: boolean, onAlert: (text: string) => void) {
+function useLiveTree(
+  enabled: boolean,
+  onAlert: (announcement: LiveAnnouncement) => void
+) {
   const [nodes, setNodes] = useState<AccNode[]>([]);
 
   const forceRefresh = useCallback(() => {
@@ -205,14 +414,13 @@ function useLiveTree(enabled: boolean, onAlert: (text: string) => void) {
   useEffect(() => {
     if (!enabled) {
       setNodes([]);
-      document.querySelectorAll(".srs-focus-ring").forEach((e) => {
-        e.classList.remove("srs-focus-ring");
-      });
+      clearFocusRing();
       return;
     }
 
     setNodes(collectAccTree());
 
+    const liveRegions = createLiveRegionEngine(onAlert);
     let timer: number;
     const observer = new MutationObserver((mutations) => {
       let shouldRebuild = false;
@@ -226,17 +434,7 @@ function useLiveTree(enabled: boolean, onAlert: (text: string) => void) {
         if (!target) return;
 
         // Live Region Check
-        const liveRegion = target.closest("[aria-live]");
-        if (liveRegion && liveRegion instanceof HTMLElement) {
-          if (liveRegion.getAttribute("aria-live") !== "off") {
-            setTimeout(() => {
-              const text = liveRegion.textContent?.trim();
-              if (text && document.activeElement !== liveRegion) {
-                onAlert(`Alert: ${text}`);
-              }
-            }, 100);
-          }
-        }
+        liveRegions.handleMutation(m);
 
         // Tree Rebuild Check
         if (
@@ -250,6 +448,8 @@ function useLiveTree(enabled: boolean, onAlert: (text: string) => void) {
               "aria-expanded",
               "aria-checked",
               "aria-invalid",
+              "aria-modal",
+              "open",
             ].includes(m.attributeName || ""))
         ) {
           shouldRebuild = true;
@@ -269,26 +469,51 @@ function useLiveTree(enabled: boolean, onAlert: (text: string) => void) {
       characterData: true,
     });
 
-    return () => observer.disconnect();
+    return () => {
+      observer.disconnect();
+      liveRegions.dispose();
+    };
   }, [enabled, onAlert]);
 
   return { nodes, forceRefresh };
 }
 
 // =========================================
-// 4. Main Orchestrator Hook
+// 3. Main Orchestrator Hook
 // =========================================
 
 type CoreOptions = {
   lang?: string;
+  /** Overrides the voice picked for `lang` (a `voiceURI`). */
+  voiceURI?: string | null;
+  profile?: ProfileId;
+  verbosity?: Verbosity;
+  punctuation?: PunctuationLevel;
+  defaultMuted?: boolean;
   onNarrate?: (line: string) => void;
+  /** Insert+F7, like NVDA's elements list */
+  onElementsList?: () => void;
+  /** The user's rebindings of `COMMANDS` keys. */
+  keymap?: KeymapOverrides;
+  /** Held for reader commands ("SR" in bindings), like NVDA's Insert. */
+  readerKey?: ReaderKey;
+  defaultQuickNav?: boolean;
   keyboard?: boolean;
   enabled?: boolean;
 };
 
 export function useScreenReaderCore({
   lang,
+  voiceURI,
+  profile: profileId = DEFAULT_PROFILE,
+  verbosity = "high",
+  punctuation = "none",
+  defaultMuted,
   onNarrate: logCallback,
+  onElementsList,
+  keymap = NO_OVERRIDES,
+  readerKey = DEFAULT_READER_KEY,
+  defaultQuickNav = true,
   keyboard = true,
   enabled = true,
 }: CoreOptions = {}) {
@@ -296,8 +521,22 @@ export function useScreenReaderCore({
   const [log, setLog] = useState<string[]>([]);
   // const [rotorIndex, setRotorIndex] = useState(0); // 0 = Default (Linear)
 
+  // The chosen profile's phrasing, with the user's verbosity and punctuation
+  const profile = useMemo(
+    () => ({
+      ...(PROFILES[profileId] ?? PROFILES[DEFAULT_PROFILE]),
+      omit: VERBOSITY_OMITS[verbosity],
+      punctuation,
+    }),
+    [profileId, verbosity, punctuation]
+  );
+
   // -- Composition --
-  const { muted, setMuted, unlocked, setUnlocked, narrate } = useSpeech(lang);
+  const { muted, setMuted, unlocked, setUnlocked, narrate, cue } = useSpeech(
+    lang,
+    voiceURI,
+    defaultMuted
+  );
 
   const handleLog = useCallback(
     (text: string) => {
@@ -307,9 +546,19 @@ export function useScreenReaderCore({
     [logCallback]
   );
 
+  // Polite updates wait for current speech; assertive ones cut it off
   const handleAlert = useCallback(
-    (alert: string) => {
-      narrate(alert, handleLog);
+    (alert: LiveAnnouncement) => {
+      narrate(alert.text, handleLog, {
+        kind: alert.politeness,
+        lang: getEffectiveLang(alert.region),
+        meta: {
+          source: "live region",
+          region:
+            alert.region.getAttribute("role") ??
+            `aria-live=${alert.politeness}`,
+        },
+      });
     },
     [narrate, handleLog]
   );
@@ -325,34 +574,66 @@ export function useScreenReaderCore({
       setIndex(clamped);
       const node = nodes[clamped];
       if (!node) return;
+      const liveNode = placeCursor(node);
 
-      document.querySelectorAll(".srs-focus-ring").forEach((e) => {
-        e.classList.remove("srs-focus-ring");
-      });
-      node.el.classList.add("srs-focus-ring");
-      node.el.scrollIntoView({ block: "center", behavior: "smooth" });
-
-      const liveNode: AccNode = {
-        ...node,
-        states: computeStates(node.el, node.role),
-        value: computeValue(node.el, node.role),
-      };
+      const lang = getEffectiveLang(node.el);
+      if (i === -1 || i === nodes.length) cue("boundary");
+      else if (isFormField(liveNode)) cue("formField");
 
       if (i === -1) {
         narrate(
-          `(No previous element) ${formatAnnouncement(liveNode)}`,
-          handleLog
+          `(No previous element) ${formatAnnouncement(liveNode, profile)}`,
+          handleLog,
+          { lang, meta: { role: liveNode.role } }
         );
         return;
       }
       if (i === nodes.length) {
-        narrate(`(No next element) ${formatAnnouncement(liveNode)}`, handleLog);
+        narrate(
+          `(No next element) ${formatAnnouncement(liveNode, profile)}`,
+          handleLog,
+          { lang, meta: { role: liveNode.role } }
+        );
         return;
       }
 
-      narrate(formatAnnouncement(liveNode), handleLog);
+      // Entering/leaving lists, tables, landmarks, forms and dialogs
+      narrate(
+        formatNavigation(nodes[index] ?? null, liveNode, profile),
+        handleLog,
+        { lang, meta: { role: liveNode.role } }
+      );
     },
-    [enabled, nodes, narrate, handleLog]
+    [enabled, nodes, index, narrate, handleLog, cue, profile]
+  );
+
+  // Virtual focus: follows aria-activedescendant while DOM focus stays on
+  // the owning combobox, listbox or grid
+  const followActiveDescendant = useCallback(
+    (owner: HTMLElement, kind: SpeechKind = "navigation") => {
+      const target = getActiveDescendant(owner) ?? owner;
+      const i = nodes.findIndex((n) => n.el === target);
+      if (i >= 0) setIndex(i);
+
+      // Popup closed: the cursor returns to the owner without speaking
+      if (target === owner) {
+        showFocusRing(owner, false);
+        return;
+      }
+
+      // Selection and position change without a tree rebuild
+      const node = i >= 0 ? nodes[i]! : createAccNode(target);
+      const liveNode: AccNode = {
+        ...placeCursor(node, { scroll: "nearest" }),
+        pos: computeHierarchy(target, node.role),
+      };
+      narrate(formatActiveDescendant(liveNode, profile), handleLog, {
+        kind,
+        lang: getEffectiveLang(target),
+        meta: { role: liveNode.role },
+      });
+    },
+    [nodes, narrate, handleLog, profile]
   );
 
   const seek = useCallback(
@@ -367,9 +648,187 @@ export function useScreenReaderCore({
         }
         i += step;
       }
+      cue("notFound");
       narrate(`No ${forward ? "next" : "previous"} ${label}`, handleLog);
     },
-    [nodes, index, focusAt, narrate, handleLog]
+    [nodes, index, focusAt, narrate, handleLog, cue]
+  );
+
+  const seekRotor = useCallback(
+    (label: string, forward = true) => {
+      const option = findRotorOption(label);
+      if (!option?.predicate) return;
+      seek(forward, label, option.predicate);
+    },
+    [seek]
+  );
+
+  // -- Text Granularity --
+  // Virtual caret inside the current node's text. Like the table cursor it is
+  // only trusted while the node index has not moved by other means; a fresh
+  // node starts before its first unit.
+  const textCaret = useRef<{ index: number; offset: number } | null>(null);
+
+  const moveByUnit = useCallback(
+    (granularity: Granularity, forward: boolean) => {
+      if (!enabled || !nodes.length) return;
+      const caret = textCaret.current;
+      const offset =
+        caret && caret.index === index ? caret.offset : forward ? -1 : 0;
+
+      let i = Math.max(0, index);
+      let segments = segmentText(getNodeText(nodes[i]!), granularity);
+      let target = stepSegment(segments, offset, forward);
+      // Past the node's text: continue into the next node that has some
+      while (!target) {
+        i += forward ? 1 : -1;
+        const next = nodes[i];
+        if (!next) {
+          cue("boundary");
+          narrate(forward ? "Bottom" : "Top", handleLog);
+          return;
+        }
+        segments = segmentText(getNodeText(next), granularity);
+        target =
+          (forward ? segments[0] : segments[segments.length - 1]) ?? null;
+      }
+
+      const node = nodes[i]!;
+      textCaret.current = { index: i, offset: target.start };
+      const unit =
+        granularity === "character"
+          ? describeCharacter(target.text)
+          : speakPunctuation(target.text, profile.punctuation ?? "none");
+
+      if (i === index) {
+        narrate(unit, handleLog, { lang: getEffectiveLang(node.el) });
+        return;
+      }
+
+      setIndex(i);
+      const liveNode = placeCursor(node);
+      const from = nodes[index] ?? null;
+      // A node that fits on one line reads as it would by object navigation
+      const text =
+        granularity === "line" && segments.length === 1
+          ? formatNavigation(from, liveNode, profile)
+          : [...describeContextChange(from, liveNode, profile), unit].join(
+              profile.separator
+            );
+      narrate(text, handleLog, {
+        lang: getEffectiveLang(node.el),
+        meta: { role: liveNode.role },
+      });
+    },
+    [enabled, nodes, index, narrate, handleLog, cue, profile]
+  );
+
+  // -- Say All --
+  // Reads from the cursor to the end, moving the cursor as each utterance
+  // starts. Any key or touch stops it, leaving the cursor where it stopped.
+  // Speech that cuts in, such as an alert, only delays it: the interrupted
+  // node is read again afterwards.
+  const [reading, setReading] = useState(false);
+  const readingRef = useRef(false);
+
+  const endSayAll = useCallback(() => {
+    readingRef.current = false;
+    setReading(false);
+  }, []);
+
+  const stopSayAll = useCallback(() => {
+    if (!readingRef.current) return;
+    endSayAll();
+    speechQueue.clear();
+  }, [endSayAll]);
+
+  const sayAll = useCallback(() => {
+    if (!enabled || !nodes.length) return;
+    readingRef.current = true;
+    setReading(true);
+
+    const readFrom = (i: number) => {
+      if (!readingRef.current) return;
+      const node = nodes[i];
+      if (!node) {
+        endSayAll();
+        return;
+      }
+
+      setIndex(i);
+      const liveNode = placeCursor(node);
+      narrate(
+        formatNavigation(nodes[i - 1] ?? null, liveNode, profile),
+        handleLog,
+        {
+          lang: getEffectiveLang(node.el),
+          meta: { role: liveNode.role },
+          onend: (reason) => {
+            if (reason === "spoken") readFrom(i + 1);
+            else if (reason === "superseded") readFrom(i);
+            else if (readingRef.current) endSayAll();
+          },
+        }
+      );
+    };
+    readFrom(Math.max(0, index));
+  }, [enabled, nodes, index, narrate, handleLog, profile, endSayAll]);
+
+  // -- Browse / Focus Mode --
+  const [mode, setMode] = useState<ReadingMode>("browse");
+  // Read synchronously by key and focus handlers within the same event
+  const modeRef = useRef<ReadingMode>("browse");
+
+  const switchMode = useCallback(
+    (next: ReadingMode) => {
+      if (modeRef.current === next) return;
+      modeRef.current = next;
+      setMode(next);
+      const id = next === "focus" ? "focusMode" : "browseMode";
+      // Spoken instead when that sound cue is switched off
+      if (getEarconSnapshot()[id]) cue(id);
+      else narrate(next === "focus" ? "Focus mode" : "Browse mode", handleLog);
+    },
+    [cue, narrate, handleLog]
+  );
+
+  // Insert+Space: manual toggle, focusing the current node when possible
+  const toggleMode = useCallback(() => {
+    if (!enabled) return;
+    if (modeRef.current === "focus") {
+      switchMode("browse");
+      return;
+    }
+    const el = nodes[index]?.el;
+    if (el && isFocusable(el) && document.activeElement !== el) el.focus();
+    switchMode("focus");
+  }, [enabled, nodes, index, switchMode]);
+
+  // -- Focus Tracking --
+  // Last page element to hold DOM focus, checked for removal after it blurs
+  const lastFocused = useRef<HTMLElement | null>(null);
+  // Focused before the tree caught up; followed after the next rebuild
+  const pendingFocus = useRef<HTMLElement | null>(null);
+  const [focusWarnings, setFocusWarnings] = useState<FocusWarning[]>([]);
+  const warningId = useRef(0);
+
+  const reportFocusWarning = useCallback(
+    (kind: FocusWarningKind, el: HTMLElement, message: string) => {
+      const warning: FocusWarning = {
+        id: ++warningId.current,
+        kind,
+        message,
+        el,
+        timestamp: Date.now(),
+      };
+      setFocusWarnings((prev) => [warning, ...prev].slice(0, 20));
+    },
+    []
+  );
+
+  // Open modal dialogs, innermost last, with the element each returns to
+  const modalStack = useRef<{ el: HTMLElement; trigger: HTMLElement | null }[]>(
+    []
   );
 
   // -- Action Logic --
@@ -403,6 +862,7 @@ export function useScreenReaderCore({
       isEditRole
     ) {
       el.focus();
+      switchMode("focus");
       narrate(`Edit field${name ? ` - ${name}` : ""}`, handleLog);
       return;
     }
@@ -417,40 +877,102 @@ export function useScreenReaderCore({
       queueMicrotask(() => {
         const freshNodes = forceRefresh();
         const newNodeIndex = freshNodes.findIndex((n) => n.el === el);
+        // Opened or closed a modal: its own announcement takes over
+        const topModal = modalStack.current[modalStack.current.length - 1];
+        if (newNodeIndex < 0 && getActiveModal() !== (topModal?.el ?? null)) {
+          return;
+        }
         const targetNode =
           newNodeIndex >= 0 ? freshNodes[newNodeIndex] : freshNodes[index];
 
         if (targetNode) {
           if (newNodeIndex >= 0) setIndex(newNodeIndex);
-          const liveNode: AccNode = {
-            ...targetNode,
-            states: computeStates(targetNode.el, targetNode.role),
-            value: computeValue(targetNode.el, targetNode.role),
-          };
-          narrate(formatAnnouncement(liveNode), handleLog);
-          document.querySelectorAll(".srs-focus-ring").forEach((e) => {
-            e.classList.remove("srs-focus-ring");
+          const liveNode = placeCursor(targetNode, { scroll: false });
+          const toggled = getToggleCue(liveNode);
+          if (toggled) cue(toggled);
+          narrate(formatAnnouncement(liveNode, profile), handleLog, {
+            lang: getEffectiveLang(targetNode.el),
+            meta: { role: liveNode.role },
           });
-          targetNode.el.classList.add("srs-focus-ring");
         }
       });
     }
-  }, [enabled, nodes, index, narrate, handleLog, forceRefresh]);
+  }, [
+    enabled,
+    nodes,
+    index,
+    narrate,
+    handleLog,
+    cue,
+    switchMode,
+    forceRefresh,
+    profile,
+  ]);
+
+  // -- Table Navigation --
+  // Empty cells have no tree node, so the cell under the cursor is tracked
+  // separately; it is only trusted while the node index has not moved.
+  const tableCursor = useRef<{ cell: HTMLElement; index: number } | null>(null);
+
+  const moveInTable = useCallback(
+    (rowDelta: -1 | 0 | 1, colDelta: -1 | 0 | 1) => {
+      if (!enabled) return;
+      const cursor = tableCursor.current;
+      const fromEl =
+        cursor && cursor.index === index && cursor.cell.isConnected
+          ? cursor.cell
+          : nodes[index]?.el;
+      const found = fromEl && findTableCell(fromEl);
+      if (!found) {
+        narrate("Not in a table", handleLog);
+        return;
+      }
+
+      const { model, cell } = found;
+      const target = moveTableCell(model, cell, rowDelta, colDelta);
+      if (!target) {
+        cue("boundary");
+        narrate("Edge of table", handleLog);
+        return;
+      }
+
+      const targetIndex = nodes.findIndex((n) => target.el.contains(n.el));
+      const node = nodes[targetIndex];
+      // Empty cells have no node: the ring still marks the cell
+      let liveNode: AccNode | null = null;
+      if (node) liveNode = placeCursor(node, { ring: target.el });
+      else showFocusRing(target.el);
+
+      const nextIndex = node ? targetIndex : index;
+      if (node) setIndex(targetIndex);
+      tableCursor.current = { cell: target.el, index: nextIndex };
+
+      narrate(
+        formatTableMove(model, cell, target, liveNode, profile),
+        handleLog,
+        {
+          lang: getEffectiveLang(target.el),
+          meta: { role: liveNode?.role ?? "cell" },
+        }
+      );
+    },
+    [enabled, nodes, index, narrate, handleLog, cue, profile]
+  );
 
   const escapeAction = useCallback(() => {
     if (!enabled) return;
     const active = document.activeElement as HTMLElement;
-    window.speechSynthesis?.cancel();
+    speechQueue.clear();
 
     if (active && (active.tagName === "INPUT" || active.isContentEditable)) {
       active.blur();
-      nodes[index]?.el.classList.add("srs-focus-ring");
-    } else {
-      document.querySelectorAll(".srs-focus-ring").forEach((e) => {
-        e.classList.remove("srs-focus-ring");
-      });
+      const node = nodes[index];
+      if (node) showFocusRing(node.el, false);
+    } else if (modeRef.current === "browse") {
+      clearFocusRing();
     }
-  }, [enabled, nodes, index]);
+    switchMode("browse");
+  }, [enabled, nodes, index, switchMode]);
 
   // -- Input Typing Echo --
   const typingDebounce = useRef<number | null>(null);
@@ -461,10 +983,15 @@ export function useScreenReaderCore({
       if (typingDebounce.current) clearTimeout(typingDebounce.current);
       typingDebounce.current = window.setTimeout(() => {
         if (isPassword) {
-          narrate("Password field, value hidden", handleLog);
+          narrate("Password field, value hidden", handleLog, {
+            kind: "typing",
+          });
         } else {
           const val = (el as HTMLInputElement).value || el.textContent || "";
-          narrate(`Value: ${val}`, handleLog);
+          narrate(`Value: ${val}`, handleLog, {
+            kind: "typing",
+            lang: getEffectiveLang(el),
+          });
         }
       }, 1000);
     },
@@ -473,6 +1000,7 @@ export function useScreenReaderCore({
 
   const handleBeforeInput = useCallback(
     (e: InputEvent) => {
+      if (isHudEvent(e)) return;
       const target = e.target as HTMLElement;
       const isPassword =
         target instanceof HTMLInputElement && target.type === "password";
@@ -480,13 +1008,13 @@ export function useScreenReaderCore({
       // 1. Text Insertion (Typing)
       if (e.inputType === "insertText" && e.data) {
         // e.data contains the actual character being typed (e.g., "a", "€")
-        narrate(isPassword ? "star" : e.data, handleLog);
+        narrate(isPassword ? "star" : e.data, handleLog, { kind: "typing" });
         triggerValueAnnouncement(target, isPassword);
       }
 
       // 2. Deletion (Backspace)
       if (e.inputType === "deleteContentBackward") {
-        narrate("Backspace", handleLog);
+        narrate("Backspace", handleLog, { kind: "typing" });
         triggerValueAnnouncement(target, isPassword);
       }
 
@@ -517,15 +1045,15 @@ export function useScreenReaderCore({
         if (e.key === "Backspace") {
           if (idx > 0) {
             const char = val[idx - 1];
-            narrate(isPassword ? "star" : char, handleLog);
+            narrate(isPassword ? "star" : char, handleLog, { kind: "typing" });
           } else {
-            narrate("Backspace", handleLog);
+            narrate("Backspace", handleLog, { kind: "typing" });
           }
           triggerValueAnnouncement(el, isPassword);
         } else if (e.key === "ArrowLeft") {
           if (idx > 0) {
             const char = val[idx - 1];
-            narrate(isPassword ? "star" : char, handleLog);
+            narrate(isPassword ? "star" : char, handleLog, { kind: "typing" });
           }
           // Navigation only - do not announce full value
         }
@@ -534,15 +1062,15 @@ export function useScreenReaderCore({
         else if (e.key === "Delete") {
           if (idx < val.length) {
             const char = val[idx];
-            narrate(isPassword ? "star" : char, handleLog);
+            narrate(isPassword ? "star" : char, handleLog, { kind: "typing" });
           } else {
-            narrate("Delete", handleLog);
+            narrate("Delete", handleLog, { kind: "typing" });
           }
           triggerValueAnnouncement(el, isPassword);
         } else if (e.key === "ArrowRight") {
           if (idx < val.length) {
             const char = val[idx];
-            narrate(isPassword ? "star" : char, handleLog);
+            narrate(isPassword ? "star" : char, handleLog, { kind: "typing" });
           }
           // Navigation only - do not announce full value
         }
@@ -567,10 +1095,9 @@ export function useScreenReaderCore({
     let lastTap = 0;
 
     const handleTouchStart = (e: TouchEvent) => {
-      const srsHUDContainer =
-        document.getElementsByClassName("srs-hud-container")[0];
-      if (e.cancelable && !srsHUDContainer.contains(e.target as Node)) {
-        e.preventDefault();
+      if (!isHudEvent(e)) {
+        if (e.cancelable) e.preventDefault();
+        stopSayAll();
       }
 
       if (e.touches.length === 2) {
@@ -616,7 +1143,7 @@ export function useScreenReaderCore({
       //   return;
       // }
       if (isThreeFinger) {
-        window.speechSynthesis.cancel();
+        speechQueue.clear();
         e.preventDefault();
         return;
       }
@@ -631,6 +1158,17 @@ export function useScreenReaderCore({
       const minSwipeDistance = 50;
       const verticalThreshold = 50;
 
+      // Two-Finger Swipe Down (Say All, as in VoiceOver)
+      if (
+        isTwoFinger &&
+        diffY > minSwipeDistance &&
+        Math.abs(diffX) < verticalThreshold
+      ) {
+        e.preventDefault();
+        sayAll();
+        return;
+      }
+
       // 2. Horizontal Swipe (Linear Nav)
       if (
         Math.abs(diffX) > minSwipeDistance &&
@@ -681,24 +1219,110 @@ export function useScreenReaderCore({
       document.removeEventListener("touchstart", handleTouchStart);
       document.removeEventListener("touchend", handleTouchEnd);
     };
-  }, [enabled, index, focusAt, activateOrFocus]);
+  }, [enabled, index, focusAt, activateOrFocus, sayAll, stopSayAll]);
 
   // -- Keyboard Listener --
+  const keyLookup = useMemo(
+    () => createKeyLookup(resolveKeymap(keymap)),
+    [keymap]
+  );
+  // Survives listener re-registration while the key is held
+  const readerKeyHeldRef = useRef(false);
+  const [readerKeyHeld, setReaderKeyHeld] = useState(false);
+  const holdReaderKey = useCallback((held: boolean) => {
+    readerKeyHeldRef.current = held;
+    setReaderKeyHeld(held);
+  }, []);
+
+  // Like NVDA's Insert+F2: the next key goes to the page, not the reader
+  const passNext = useRef(false);
+  const [passingNextKey, setPassingNextKey] = useState(false);
+  const passNextKey = useCallback(() => {
+    passNext.current = true;
+    setPassingNextKey(true);
+    narrate("Pass next key through", handleLog);
+  }, [narrate, handleLog]);
+
+  // Off: single letters reach the page's own shortcuts in browse mode too
+  const [quickNav, setQuickNav] = useState(defaultQuickNav);
+  const toggleQuickNav = useCallback(() => {
+    setQuickNav(!quickNav);
+    narrate(`Single letter navigation ${quickNav ? "off" : "on"}`, handleLog);
+  }, [quickNav, narrate, handleLog]);
+
   useEffect(() => {
     if (!keyboard || !enabled) return;
 
+    const quickNavCommands = Object.entries(QUICK_NAV_TARGETS).flatMap(
+      ([target, [noun, predicate]]) => [
+        [`next${target}`, () => seek(true, noun, predicate)],
+        [`prev${target}`, () => seek(false, noun, predicate)],
+      ]
+    );
+    const commands: Partial<Record<CommandId, () => void>> = {
+      nextElement: () => focusAt(index + 1),
+      prevElement: () => focusAt(index - 1),
+      nextLine: () => moveByUnit("line", true),
+      prevLine: () => moveByUnit("line", false),
+      nextWord: () => moveByUnit("word", true),
+      prevWord: () => moveByUnit("word", false),
+      nextCharacter: () => moveByUnit("character", true),
+      prevCharacter: () => moveByUnit("character", false),
+      activate: activateOrFocus,
+      exit: escapeAction,
+      ...(Object.fromEntries(quickNavCommands) as Record<string, () => void>),
+      // NVDA table commands: Ctrl+Alt+Arrows move between cells
+      cellUp: () => moveInTable(-1, 0),
+      cellDown: () => moveInTable(1, 0),
+      cellLeft: () => moveInTable(0, -1),
+      cellRight: () => moveInTable(0, 1),
+      // NVDA: Insert+Down Arrow reads from the cursor
+      sayAll,
+      toggleMode,
+      elementsList: onElementsList,
+      stopSpeech: speechQueue.clear,
+      passNextKey,
+      toggleQuickNav,
+    };
+
+    // Events that report the reader key's state correct a missed keyup
+    const syncReaderKey = (e: KeyboardEvent) => {
+      const held = getReaderKeyState(e, readerKey);
+      if (held !== null && held !== readerKeyHeldRef.current) {
+        holdReaderKey(held);
+      }
+    };
+
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Control") {
-        window.speechSynthesis.cancel();
+      if (isHudEvent(e)) return;
+
+      // Any key interrupts say all; the key then acts from where it stopped
+      stopSayAll();
+
+      syncReaderKey(e);
+      if (e.key === readerKey) {
+        holdReaderKey(true);
         return;
       }
 
+      if (passNext.current) {
+        if (isModifierKey(e)) return; // Still waiting for the key itself
+        passNext.current = false;
+        setPassingNextKey(false);
+        return;
+      }
+
+      let command = keyLookup.get(eventToBinding(e, readerKeyHeldRef.current));
       if (
-        !unlocked &&
-        ["ArrowRight", "ArrowLeft", "h", "H", "Enter", " "].includes(e.key)
+        command &&
+        !quickNav &&
+        getCommand(command).group === "Quick Navigation"
       ) {
+        command = undefined;
+      }
+      if (!unlocked && command && command !== "stopSpeech") {
         setUnlocked(true);
-        if (!muted) speak("Screen reader ready", { interrupt: true });
+        if (!muted) speechQueue.enqueue("Screen reader ready");
       }
 
       const active = document.activeElement as HTMLElement;
@@ -708,97 +1332,45 @@ export function useScreenReaderCore({
           active.tagName === "TEXTAREA" ||
           active.isContentEditable);
 
-      if (isEditable && e.key !== "Escape") {
-        handleTyping(e, active);
-        return;
-      }
-
-      if (e.key === "Escape") {
-        e.preventDefault();
-        escapeAction();
+      // Focus mode: keys go to the widget; edit fields also echo typing.
+      // Edit fields keep their keys in browse mode too, so typing a letter
+      // never jumps to a heading.
+      if (
+        (modeRef.current === "focus" || isEditable) &&
+        !(command && getCommand(command).global)
+      ) {
+        if (isEditable) handleTyping(e, active);
         return;
       }
 
-      const forward = !e.shiftKey;
-      const k = e.key.toLowerCase();
-
-      // Keyboard shortcuts map to Rotor Predicates
-      // This ensures keyboard 'h' behaves exactly like Rotor "Headings" -> Swipe Down
-      const actions: Record<string, () => void> = {
-        arrowright: () => focusAt(index + 1),
-        arrowleft: () => focusAt(index - 1),
-        " ": activateOrFocus,
-        enter: activateOrFocus,
-        h: () =>
-          seek(
-            forward,
-            "heading",
-            ROTOR_OPTIONS.find((o) => o.label === "Headings")!.predicate!
-          ),
-        b: () =>
-          seek(
-            forward,
-            "button",
-            ROTOR_OPTIONS.find((o) => o.label === "Buttons")!.predicate!
-          ),
-        l: () =>
-          seek(
-            forward,
-            "link",
-            ROTOR_OPTIONS.find((o) => o.label === "Links")!.predicate!
-          ),
-        t: () =>
-          seek(
-            forward,
-            "table",
-            ROTOR_OPTIONS.find((o) => o.label === "Tables")!.predicate!
-          ),
-        g: () =>
-          seek(
-            forward,
-            "graphic",
-            ROTOR_OPTIONS.find((o) => o.label === "Graphics")!.predicate!
-          ),
-        f: () =>
-          seek(
-            forward,
-            "form field",
-            ROTOR_OPTIONS.find((o) => o.label === "Form Fields")!.predicate!
-          ),
-        d: () =>
-          seek(
-            forward,
-            "landmark",
-            ROTOR_OPTIONS.find((o) => o.label === "Landmarks")!.predicate!
-          ),
-        // 'i' doesn't have a direct Rotor equivalent in my simplified list, defining inline
-        i: () => seek(forward, "list item", (n) => n.role === "listitem"),
-      };
-
-      if (/^[1-6]$/.test(k)) {
-        const level = parseInt(k);
+      const run = command && commands[command];
+      if (run) {
         e.preventDefault();
-        seek(
-          forward,
-          `heading level ${level}`,
-          (n) => n.role === "heading" && n.states.includes(`level ${level}`)
-        );
-        return;
+        run();
       }
+    };
 
-      if (actions[k]) {
-        e.preventDefault();
-        actions[k]();
-      }
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.key === readerKey) holdReaderKey(false);
+      else syncReaderKey(e);
     };
 
+    // Keyup never arrives when the window loses focus while the key is down
+    const releaseReaderKey = () => holdReaderKey(false);
+
     window.addEventListener("keydown", onKey, { capture: true });
+    window.addEventListener("keyup", onKeyUp, { capture: true });
+    window.addEventListener("blur", releaseReaderKey);
+    document.addEventListener("visibilitychange", releaseReaderKey);
     window.addEventListener("beforeinput", handleBeforeInput, {
       capture: true,
       passive: false,
     });
     return () => {
       window.removeEventListener("keydown", onKey, { capture: true });
+      window.removeEventListener("keyup", onKeyUp, { capture: true });
+      window.removeEventListener("blur", releaseReaderKey);
+      document.removeEventListener("visibilitychange", releaseReaderKey);
       window.removeEventListener("beforeinput", handleBeforeInput, {
         capture: true,
       });
@@ -806,6 +1378,12 @@ export function useScreenReaderCore({
   }, [
     keyboard,
     enabled,
+    keyLookup,
+    readerKey,
+    holdReaderKey,
+    quickNav,
+    passNextKey,
+    toggleQuickNav,
     index,
     unlocked,
     muted,
@@ -813,6 +1391,12 @@ export function useScreenReaderCore({
     seek,
     activateOrFocus,
     escapeAction,
+    moveInTable,
+    moveByUnit,
+    sayAll,
+    stopSayAll,
+    toggleMode,
+    onElementsList,
     handleTyping,
     setUnlocked,
     handleBeforeInput,
@@ -822,15 +1406,250 @@ export function useScreenReaderCore({
   useEffect(() => {
     if (!enabled) return;
     const onFocus = (e: FocusEvent) => {
+      if (isHudEvent(e)) return;
       const target = e.target as HTMLElement;
-      const i = nodes.findIndex((n) => n.el === target);
-      if (i >= 0 && i !== index) {
-        focusAt(i);
+      // Automatic focus mode: widgets get the keys, anything else returns
+      // to browse mode
+      if (target instanceof HTMLElement) {
+        switchMode(requiresFocusMode(target) ? "focus" : "browse");
+      }
+      if (!(target instanceof HTMLElement)) return;
+      lastFocused.current = target;
+
+      // Scripted .focus() calls are followed like user moves
+      const i = findFocusedNode(nodes, target);
+      if (i >= 0) {
+        if (i !== index) focusAt(i);
+        return;
+      }
+
+      // The tree may just be stale, e.g. focus moved into new content
+      if (findFocusedNode(forceRefresh(), target) >= 0) {
+        pendingFocus.current = target;
+        return;
       }
+
+      const what = describeElement(target, nodes);
+      reportFocusWarning(
+        "outside-tree",
+        target,
+        `Focus moved to ${what}, which is not in the accessibility tree`
+      );
+      narrate(
+        `${
+          formatAnnouncement(createAccNode(target), profile) || what
+        }, outside the accessibility tree`,
+        handleLog,
+        { kind: "assertive", lang: getEffectiveLang(target) }
+      );
     };
     window.addEventListener("focus", onFocus, true);
     return () => window.removeEventListener("focus", onFocus, true);
-  }, [enabled, nodes, index, focusAt]);
+  }, [
+    enabled,
+    nodes,
+    index,
+    focusAt,
+    switchMode,
+    forceRefresh,
+    reportFocusWarning,
+    narrate,
+    handleLog,
+    profile,
+  ]);
+
+  // -- Focus Loss --
+  // Removing, hiding or disabling the focused element drops focus to
+  // <body> without any event on the new target. Chrome fires no blur on
+  // removal either, so DOM changes are checked as well as focusout.
+  useEffect(() => {
+    if (!enabled) return;
+    let timer: number | undefined;
+
+    const check = () => {
+      const el = lastFocused.current;
+      const active = document.activeElement;
+      if (!el || (active && active !== document.body)) return;
+
+      const reason = !el.isConnected
+        ? "removed"
+        : isHidden(el)
+        ? "hidden"
+        : el.matches(":disabled")
+        ? "disabled"
+        : null;
+      // Otherwise the user just clicked an empty part of the page
+      if (!reason) return;
+      lastFocused.current = null;
+
+      const what = describeElement(el, nodes);
+      reportFocusWarning(
+        "focus-lost",
+        el,
+        `Focus lost: ${what} was ${reason} and focus fell back to the page body`
+      );
+      narrate(`Focus lost, ${what} was ${reason}`, handleLog, {
+        kind: "assertive",
+      });
+    };
+
+    const observer = new MutationObserver(check);
+    observer.observe(document.body, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: [
+        "hidden",
+        "style",
+        "class",
+        "disabled",
+        "aria-hidden",
+        "inert",
+      ],
+    });
+    const onFocusOut = (e: FocusEvent) => {
+      if (isHudEvent(e)) return;
+      // activeElement only settles after the event
+      clearTimeout(timer);
+      timer = window.setTimeout(check, 0);
+    };
+
+    window.addEventListener("focusout", onFocusOut, true);
+    return () => {
+      clearTimeout(timer);
+      observer.disconnect();
+      window.removeEventListener("focusout", onFocusOut, true);
+    };
+  }, [enabled, nodes, reportFocusWarning, narrate, handleLog]);
+
+  // -- Modal Dialogs --
+  // The tree is confined to the topmost modal, so rebuilds show dialogs
+  // opening and closing. The cursor enters each new dialog and returns to
+  // whatever opened it once it closes.
+  useEffect(() => {
+    const stack = modalStack.current;
+    if (!enabled) {
+      stack.length = 0;
+      return;
+    }
+    const modal = getActiveModal();
+
+    let returnTo: HTMLElement | null = null;
+    while (stack.length) {
+      const top = stack[stack.length - 1]!;
+      if (top.el === modal || isModalOpen(top.el)) break;
+      stack.pop();
+      returnTo = top.trigger;
+    }
+
+    // `intro` replaces the container context, which would repeat the dialog
+    const moveCursor = (i: number, intro: string | null) => {
+      const node = nodes[i];
+      if (!node) return;
+      setIndex(i);
+      const liveNode = placeCursor(node);
+      narrate(
+        intro === null
+          ? formatNavigation(null, liveNode, profile)
+          : [intro, formatAnnouncement(liveNode, profile)]
+              .filter(Boolean)
+              .join(profile.separator),
+        handleLog,
+        { lang: getEffectiveLang(node.el), meta: { role: liveNode.role } }
+      );
+    };
+
+    if (modal && stack[stack.length - 1]?.el !== modal) {
+      // The cursor (or focus) is still on the opener until we move it
+      const trigger =
+        [
+          document.querySelector(".srs-focus-ring"),
+          document.activeElement,
+        ].find(
+          (el): el is HTMLElement =>
+            el instanceof HTMLElement &&
+            el !== document.body &&
+            !modal.contains(el)
+        ) ?? null;
+      stack.push({ el: modal, trigger });
+
+      // Land where the dialog put focus, else on its first node; focus
+      // waiting on this rebuild is announced here too
+      pendingFocus.current = null;
+      const focused = nodes.findIndex((n) => n.el === document.activeElement);
+      const i = focused >= 0 ? focused : 0;
+      // Role, name and description of the dialog itself come first
+      moveCursor(
+        i,
+        nodes[i]?.el === modal
+          ? ""
+          : formatAnnouncement(createAccNode(modal), profile)
+      );
+      return;
+    }
+
+    if (returnTo?.isConnected) {
+      const i = nodes.findIndex((n) => n.el === returnTo);
+      if (i >= 0) moveCursor(i, null);
+    }
+  }, [enabled, nodes, narrate, handleLog, profile]);
+
+  // Follows focus that arrived before its node existed (after the modal
+  // effect, which claims focus landing in a new dialog)
+  useEffect(() => {
+    const target = pendingFocus.current;
+    if (!target) return;
+    const i = findFocusedNode(nodes, target);
+    if (i < 0) return;
+    pendingFocus.current = null;
+    if (document.activeElement === target) focusAt(i);
+  }, [nodes, focusAt]);
+
+  // -- Active Descendant --
+  // Autocompletes and listboxes keep DOM focus on one element and move
+  // aria-activedescendant instead, so no focus event fires per option
+  useEffect(() => {
+    if (!enabled) return;
+    let owner: HTMLElement | null = null;
+    const observer = new MutationObserver(() => {
+      if (owner) followActiveDescendant(owner);
+    });
+
+    const track = (el: HTMLElement | null) => {
+      observer.disconnect();
+      owner = el;
+      if (el) {
+        observer.observe(el, {
+          attributes: true,
+          attributeFilter: ["aria-activedescendant"],
+        });
+      }
+    };
+
+    const onFocus = (e: FocusEvent) => {
+      if (isHudEvent(e)) return;
+      track(e.target instanceof HTMLElement ? e.target : null);
+      // Queued after the owner's own focus announcement
+      if (owner && getActiveDescendant(owner)) {
+        followActiveDescendant(owner, "polite");
+      }
+    };
+    const onBlur = (e: FocusEvent) => {
+      if (e.target === owner) track(null);
+    };
+
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && active !== document.body) {
+      track(active);
+    }
+    window.addEventListener("focus", onFocus, true);
+    window.addEventListener("blur", onBlur, true);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("focus", onFocus, true);
+      window.removeEventListener("blur", onBlur, true);
+    };
+  }, [enabled, followActiveDescendant]);
 
   return {
     state: {
@@ -838,16 +1657,36 @@ export function useScreenReaderCore({
       index,
       muted,
       log,
+      profile,
+      mode,
+      reading,
+      focusWarnings,
+      quickNav,
+      passingNextKey,
+      readerKeyHeld,
       current: nodes[index] || null,
     },
     actions: {
       focusNext: () => focusAt(index + 1),
       focusPrev: () => focusAt(index - 1),
       focusAt,
+      seek,
+      seekRotor,
       activateOrFocus,
       escapeAction,
+      moveInTable,
+      moveByUnit,
+      toggleMode,
+      toggleQuickNav,
+      passNextKey,
+      sayAll,
+      stopSayAll,
       setMuted,
+      setQuickNav,
       clearLog: () => setLog([]),
+      clearFocusWarnings: () => setFocusWarnings([]),
     },
   };
 }
+
+export type ScreenReaderCore = ReturnType<typeof useScreenReaderCore>;
@@ -0,0 +1,19 @@
+// src/hooks/useVoices.ts
+import { useEffect, useState } from "react";
+
+/**
+ * The browser's speech synthesis voices. They arrive asynchronously in
+ * Chrome ("voiceschanged"), so the list starts empty and fills in later.
+ */
+export function useVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  useEffect(() => {
+    if (!("speechSynthesis" in window)) return;
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    update();
+    window.speechSynthesis.addEventListener("voiceschanged", update);
+    return () =>
+      window.speechSynthesis.removeEventListener("voiceschanged", update);
+  }, []);
+  return voices;
+}
@@ -0,0 +1,144 @@
+// src/testing/goldenTranscript.ts
+
+/**
+ * Golden transcript snapshots: drive the simulator with a navigation script
+ * and compare everything it says against a committed text file. A change to
+ * the markup, `formatAnnouncement` or `computeStates` that alters the spoken
+ * output fails the test with a line-by-line diff.
+ *
+ * Usage (vitest, jsdom environment):
+ *
+ *   document.body.innerHTML = renderToStaticMarkup(<SignupForm />);
+ *   await expectTranscriptSnapshot(
+ *     "next ×10, activate, next heading",
+ *     "./__transcripts__/signup-form.txt"
+ *   );
+ *
+ * Commands: next, prev, activate, escape, and "next <rotor>" /
+ * "prev <rotor>" (heading, button, link, form field, table, graphic,
+ * landmark). Append "×N" (or "xN") to repeat. Run `vitest run -u` to accept
+ * an intentional change.
+ */
+
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { expect } from "vitest";
+import {
+  findRotorOption,
+  ROTOR_OPTIONS,
+  type ScreenReaderCore,
+  useScreenReaderCore,
+} from "../hooks/useScreenReaderSimulator";
+import type { ProfileId } from "../utils/profiles";
+
+export interface TranscriptStep {
+  command: string;
+  spoken: string[];
+}
+
+type RecordOptions = {
+  profile?: ProfileId;
+};
+
+/** Expands "next ×3, activate" into ["next", "next", "next", "activate"]. */
+export const parseNavigationScript = (script: string): string[] =>
+  script
+    .split(",")
+    .map((cmd) => cmd.trim())
+    .filter(Boolean)
+    .flatMap((cmd) => {
+      const repeat = /^(.*?)\s*[×x*]\s*(\d+)$/.exec(cmd);
+      return repeat
+        ? Array<string>(Number(repeat[2])).fill(repeat[1].trim())
+        : [cmd];
+    });
+
+const runCommand = ({ actions }: ScreenReaderCore, command: string): void => {
+  const [direction, ...rest] = command.toLowerCase().split(/\s+/);
+  const target = rest.join(" ");
+
+  if (command === "activate") return actions.activateOrFocus();
+  if (command === "escape") return actions.escapeAction();
+  if (direction === "next" || direction === "prev") {
+    if (!target) {
+      return direction === "next" ? actions.focusNext() : actions.focusPrev();
+    }
+    // A typo must fail the test, not record a step that says nothing
+    if (!findRotorOption(target)) {
+      const known = ROTOR_OPTIONS.filter((o) => o.predicate).map((o) =>
+        o.label.toLowerCase()
+      );
+      throw new Error(
+        `Unknown rotor target "${target}" in "${command}" (known: ${known.join(
+          ", "
+        )})`
+      );
+    }
+    return actions.seekRotor(target, direction === "next");
+  }
+  throw new Error(`Unknown navigation command "${command}"`);
+};
+
+/**
+ * Mounts `useScreenReaderCore` against the current document, runs each
+ * command through its actions and records what was narrated per step.
+ */
+export const recordNavigation = async (
+  script: string | string[],
+  { profile }: RecordOptions = {}
+): Promise<TranscriptStep[]> => {
+  (
+    globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+  ).IS_REACT_ACT_ENVIRONMENT = true;
+
+  const commands =
+    typeof script === "string" ? parseNavigationScript(script) : script;
+  let core = null as ScreenReaderCore | null;
+  let spoken: string[] = [];
+  const onNarrate = (line: string) => spoken.push(line);
+
+  function Probe() {
+    core = useScreenReaderCore({ profile, onNarrate });
+    return null;
+  }
+
+  const host = document.createElement("div");
+  document.body.appendChild(host);
+  const root = createRoot(host);
+  await act(async () => root.render(createElement(Probe)));
+
+  const steps: TranscriptStep[] = [];
+  try {
+    for (const command of commands) {
+      spoken = [];
+      await act(async () => {
+        if (!core) throw new Error("Screen reader core did not mount");
+        runCommand(core, command);
+      });
+      steps.push({ command, spoken });
+    }
+  } finally {
+    await act(async () => root.unmount());
+    host.remove();
+  }
+  return steps;
+};
+
+export const formatNavigationTranscript = (steps: TranscriptStep[]): string =>
+  steps
+    .map((step) =>
+      [`> ${step.command}`, ...step.spoken.map((line) => `  ${line}`)].join(
+        "\n"
+      )
+    )
+    .join("\n") + "\n";
+
+/** Records `script` and compares it with the snapshot file at `path`. */
+export const expectTranscriptSnapshot = async (
+  script: string | string[],
+  path: string,
+  options?: RecordOptions
+): Promise<void> => {
+  const steps = await recordNavigation(script, options);
+  await expect(formatNavigationTranscript(steps)).toMatchFileSnapshot(path);
+};
@@ -0,0 +1,301 @@
+// src/utils/announce.ts
+import {
+  type AnnouncementPart,
+  DEFAULT_PROFILE,
+  LANDMARK_NAMES,
+  PROFILES,
+  type ScreenReaderProfile,
+} from "./profiles";
+import { ROLE_MAP } from "./roleMap";
+import {
+  buildTableModel,
+  getCellHeaders,
+  type TableCell,
+  type TableModel,
+} from "./tables";
+import { speakPunctuation } from "./textNavigation";
+import { type AccNode, isContainer } from "./utils";
+
+// =============================
+// 1. Helpers
+// =============================
+
+export const getHeadingLevel = (el: HTMLElement): number | undefined => {
+  const levelAttr = el.getAttribute("aria-level");
+  const level = levelAttr
+    ? parseInt(levelAttr, 10)
+    : parseInt(el.tagName.substring(1), 10);
+  return !isNaN(level) ? level : undefined;
+};
+
+export const formatRole = (
+  node: AccNode,
+  profile: ScreenReaderProfile
+): string => {
+  if (!node.role || node.role === "statictext") return "";
+  if (node.role === "heading") {
+    return profile.heading(getHeadingLevel(node.el));
+  }
+  if (profile.landmark && LANDMARK_NAMES[node.role]) {
+    return profile.landmark(LANDMARK_NAMES[node.role]);
+  }
+  const mappedRole =
+    profile.roles[node.role] ?? (ROLE_MAP[node.role] || node.role);
+  if (!profile.capitalizeRole) return mappedRole;
+  return mappedRole.charAt(0).toUpperCase() + mappedRole.slice(1);
+};
+
+// =============================
+// 2. Announcement Formatting
+// =============================
+
+const computeParts = (
+  node: AccNode,
+  profile: ScreenReaderProfile
+): Record<AnnouncementPart, string | undefined> => {
+  const parts: Record<AnnouncementPart, string | undefined> = {
+    checkState: undefined,
+    name: undefined,
+    role: undefined,
+    description: undefined,
+    value: undefined,
+    error: undefined,
+    states: undefined,
+    coords: undefined,
+  };
+
+  // 1. State (Checkable)
+  if (["checkbox", "radio button", "switch"].includes(node.role)) {
+    parts.checkState = node.states.find((s) =>
+      /checked|unchecked|selected/.test(s)
+    );
+  }
+
+  const say = (text: string) =>
+    speakPunctuation(text, profile.punctuation ?? "none");
+
+  // 2. Name
+  if (node.name) {
+    const name = say(node.name);
+    parts.name = profile.quoteName ? `"${name}"` : name;
+  }
+
+  // 3. Role
+  parts.role = formatRole(node, profile) || undefined;
+
+  // 4. Description
+  if (node.description) parts.description = say(node.description);
+
+  // 5. Value / Placeholder
+  if (node.role === "textbox" || node.role === "combobox") {
+    const el = node.el as HTMLInputElement | HTMLTextAreaElement;
+    if (el.type === "password") {
+      parts.value = "Password field";
+    } else if (el.value?.trim()) {
+      parts.value = `Value: ${say(el.value.trim())}`;
+    } else if (el.placeholder) {
+      parts.value = say(el.placeholder);
+    }
+  }
+
+  // 6. Validation Error Messages
+  if (node.states.includes("invalid")) {
+    const el = node.el as HTMLInputElement;
+    if (el.validationMessage) {
+      parts.error = `Error: ${el.validationMessage}`;
+    } else {
+      const errId = el.getAttribute("aria-errormessage");
+      if (errId) {
+        const errEl = document.getElementById(errId);
+        if (errEl?.textContent) {
+          parts.error = `Error: ${errEl.textContent.trim()}`;
+        }
+      }
+    }
+  }
+
+  // 7. Other States
+  const otherStates = node.states.filter(
+    (s) => !/checked|unchecked|selected|invalid/.test(s)
+  );
+  if (otherStates.length) parts.states = otherStates.join(", ");
+
+  // 8. Table Coords
+  if (node.coords) {
+    parts.coords = `row ${node.coords.row}, col ${node.coords.col}`;
+  }
+
+  return parts;
+};
+
+export const formatAnnouncement = (
+  node: AccNode,
+  profile: ScreenReaderProfile = PROFILES[DEFAULT_PROFILE]
+): string => {
+  const parts = computeParts(node, profile);
+  return profile.order
+    .filter((key) => !profile.omit?.includes(key))
+    .map((key) => parts[key])
+    .filter((p): p is string => !!p)
+    .join(profile.separator);
+};
+
+// =============================
+// 3. Container Context
+// =============================
+
+const ITEM_ROLES: Record<string, string> = {
+  list: "listitem",
+  listbox: "option",
+  menu: "menuitem",
+  menubar: "menuitem",
+  tablist: "tab",
+  tree: "treeitem",
+  radiogroup: "radio",
+};
+
+const TABLE_ROLES = new Set(["table", "grid", "treegrid"]);
+
+const plural = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/** Containers around (and including) a node, outermost first. */
+export const getContainerChain = (node: AccNode): AccNode[] => {
+  const chain: AccNode[] = [];
+  let current: AccNode | undefined = node;
+  while (current) {
+    if (isContainer(current.role, current.name)) chain.unshift(current);
+    current = current.parent;
+  }
+  return chain;
+};
+
+export const describeContainerEntry = (
+  container: AccNode,
+  profile: ScreenReaderProfile
+): string => {
+  const parts: string[] = [];
+  if (container.name) parts.push(container.name);
+
+  if (TABLE_ROLES.has(container.role)) {
+    const { rowCount, colCount } = buildTableModel(container.el);
+    parts.push(
+      `${formatRole(container, profile)} with ${plural(
+        rowCount,
+        "row"
+      )} and ${plural(colCount, "column")}`
+    );
+  } else {
+    parts.push(formatRole(container, profile));
+  }
+
+  const itemRole = ITEM_ROLES[container.role];
+  if (itemRole) {
+    const count = container.children.filter((c) => c.role === itemRole).length;
+    if (count) parts.push(plural(count, "item"));
+  }
+  return parts.filter(Boolean).join(profile.separator);
+};
+
+export const describeContainerExit = (
+  container: AccNode,
+  profile: ScreenReaderProfile
+): string => `out of ${formatRole(container, profile).toLowerCase()}`;
+
+/**
+ * What a screen reader says when the cursor crosses container boundaries:
+ * exits innermost first, then entries outermost first. The target itself is
+ * left out because its own announcement already names it.
+ */
+export const describeContextChange = (
+  from: AccNode | null,
+  to: AccNode,
+  profile: ScreenReaderProfile
+): string[] => {
+  const fromChain = from ? getContainerChain(from) : [];
+  const toChain = getContainerChain(to);
+  const toEls = new Set(toChain.map((n) => n.el));
+  const fromEls = new Set(fromChain.map((n) => n.el));
+
+  const exited = fromChain
+    .filter((n) => !toEls.has(n.el))
+    .reverse()
+    .map((n) => describeContainerExit(n, profile));
+  const entered = toChain
+    .filter((n) => !fromEls.has(n.el) && n.el !== to.el)
+    .map((n) => describeContainerEntry(n, profile));
+
+  return [...exited, ...entered];
+};
+
+/** Full utterance for moving the cursor from one node to another. */
+export const formatNavigation = (
+  from: AccNode | null,
+  to: AccNode,
+  profile: ScreenReaderProfile = PROFILES[DEFAULT_PROFILE]
+): string => {
+  const context =
+    from && from.el === to.el ? [] : describeContextChange(from, to, profile);
+  return [...context, formatAnnouncement(to, profile)]
+    .filter(Boolean)
+    .join(profile.separator);
+};
+
+// =============================
+// 4. Table Navigation
+// =============================
+
+/**
+ * Utterance for a table cell move: headers for whichever axis changed, then
+ * the cell itself. `node` is null for empty cells that have no tree node.
+ */
+export const formatTableMove = (
+  model: TableModel,
+  from: TableCell,
+  to: TableCell,
+  node: AccNode | null,
+  profile: ScreenReaderProfile = PROFILES[DEFAULT_PROFILE]
+): string => {
+  const headers = getCellHeaders(model, to);
+  const parts: string[] = [];
+  if (to.row !== from.row) parts.push(...headers.row);
+  if (to.col !== from.col) parts.push(...headers.column);
+  parts.push(
+    node
+      ? formatAnnouncement(node, profile)
+      : `blank${profile.separator}row ${to.rowIndex}, col ${to.colIndex}`
+  );
+  return parts.filter(Boolean).join(profile.separator);
+};
+
+// =============================
+// 5. Active Descendant
+// =============================
+
+// Roles whose selection is spoken even when unselected, as NVDA does
+const SELECTABLE_ROLES = new Set([
+  "option",
+  "gridcell",
+  "row",
+  "tab",
+  "treeitem",
+]);
+
+/**
+ * Utterance for an `aria-activedescendant` move: the item, its selected
+ * state and its position in the set ("Apple, selected, 1 of 3").
+ */
+export const formatActiveDescendant = (
+  node: AccNode,
+  profile: ScreenReaderProfile = PROFILES[DEFAULT_PROFILE]
+): string => {
+  const parts = [formatAnnouncement(node, profile)];
+  if (
+    SELECTABLE_ROLES.has(node.role) &&
+    node.el.hasAttribute("aria-selected")
+  ) {
+    parts.push(node.states.includes("selected") ? "selected" : "not selected");
+  }
+  if (node.pos) parts.push(`${node.pos.pos} of ${node.pos.size}`);
+  return parts.filter(Boolean).join(profile.separator);
+};
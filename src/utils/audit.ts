@@ -0,0 +1,242 @@
+// src/utils/audit.ts
+import { getHeadingLevel } from "./announce";
+import { type AccNode, collectAccTree, isFocusable, isHidden } from "./utils";
+
+// =============================
+// 1. Types
+// =============================
+
+export type AuditSeverity = "critical" | "serious" | "moderate" | "minor";
+
+export interface AuditFinding {
+  ruleId: string;
+  severity: AuditSeverity;
+  /** WCAG success criterion, e.g. "1.1.1 Non-text Content". */
+  wcag: string;
+  message: string;
+  fix: string;
+  el: HTMLElement;
+  /** The matching tree node, when the element is reachable by the cursor. */
+  node?: AccNode;
+}
+
+type AuditContext = {
+  nodes: AccNode[];
+  root: ParentNode;
+};
+
+export interface AuditRule {
+  id: string;
+  description: string;
+  run: (ctx: AuditContext) => Omit<AuditFinding, "ruleId" | "node">[];
+}
+
+const SEVERITY_ORDER: AuditSeverity[] = [
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+];
+
+const FORM_FIELD_ROLES = new Set([
+  "textbox",
+  "searchbox",
+  "combobox",
+  "listbox",
+  "checkbox",
+  "radio",
+  "switch",
+  "slider",
+  "spinbutton",
+]);
+
+// =============================
+// 2. Helpers
+// =============================
+
+const describeEl = (el: HTMLElement): string => {
+  const id = el.id ? `#${el.id}` : "";
+  return `<${el.tagName.toLowerCase()}${id}>`;
+};
+
+/** Raw DOM candidates, minus anything the tree would hide (including the HUD). */
+const queryVisible = <T extends HTMLElement>(
+  root: ParentNode,
+  selector: string
+): T[] =>
+  Array.from(root.querySelectorAll<T>(selector)).filter((el) => !isHidden(el));
+
+const hasAuthorLabel = (el: HTMLElement): boolean =>
+  !!(
+    el.getAttribute("aria-label")?.trim() ||
+    el.getAttribute("aria-labelledby") ||
+    el.getAttribute("title")?.trim() ||
+    (el as HTMLInputElement).labels?.length
+  );
+
+// =============================
+// 3. Rules
+// =============================
+
+export const AUDIT_RULES: AuditRule[] = [
+  {
+    id: "form-field-name",
+    description: "Form fields must have an accessible name",
+    run: ({ nodes }) =>
+      nodes
+        .filter((n) => FORM_FIELD_ROLES.has(n.role) && !n.name)
+        .filter((n) => !n.el.getAttribute("placeholder"))
+        .map((n) => ({
+          severity: "critical",
+          wcag: "4.1.2 Name, Role, Value",
+          message: `${describeEl(n.el)} is announced with no name.`,
+          fix: 'Add a <label for="…"> or an aria-label describing the field.',
+          el: n.el,
+        })),
+  },
+  {
+    id: "placeholder-only-label",
+    description: "Placeholders must not be the only label",
+    run: ({ nodes }) =>
+      nodes
+        .filter((n) => FORM_FIELD_ROLES.has(n.role))
+        .filter(
+          (n) => !!n.el.getAttribute("placeholder") && !hasAuthorLabel(n.el)
+        )
+        .map((n) => ({
+          severity: "serious",
+          wcag: "3.3.2 Labels or Instructions",
+          message: `${describeEl(
+            n.el
+          )} is labelled only by its placeholder "${n.el.getAttribute(
+            "placeholder"
+          )}", which disappears once the user types.`,
+          fix: "Add a persistent visible <label>; keep the placeholder as an example only.",
+          el: n.el,
+        })),
+  },
+  {
+    id: "image-alt",
+    description: "Images must have alternative text",
+    run: ({ root }) =>
+      queryVisible<HTMLImageElement>(root, "img:not([alt])")
+        .filter(
+          (el) =>
+            !["presentation", "none"].includes(el.getAttribute("role") ?? "") &&
+            !hasAuthorLabel(el)
+        )
+        .map((el) => ({
+          severity: "critical",
+          wcag: "1.1.1 Non-text Content",
+          message: `${describeEl(
+            el
+          )} has no alt attribute, so screen readers fall back to the file name or say nothing.`,
+          fix: 'Add alt text describing the image, or alt="" if it is decorative.',
+          el,
+        })),
+  },
+  {
+    id: "image-alt-filename",
+    description: "Alternative text must not be a file name",
+    run: ({ root }) =>
+      queryVisible<HTMLImageElement>(root, "img[alt]")
+        .filter((el) => /\.(png|jpe?g|gif|svg|webp|avif)$/i.test(el.alt.trim()))
+        .map((el) => ({
+          severity: "serious",
+          wcag: "1.1.1 Non-text Content",
+          message: `${describeEl(el)} has alt text "${
+            el.alt
+          }", which is a file name.`,
+          fix: "Replace the alt text with a description of what the image shows.",
+          el,
+        })),
+  },
+  {
+    id: "click-handler-no-role",
+    description: "Clickable elements must expose a role and be focusable",
+    run: ({ root }) =>
+      queryVisible(root, "div, span, li, img, p")
+        .filter((el) => !el.getAttribute("role") && !isFocusable(el))
+        .filter((el) => !el.closest("a[href], button, label, summary"))
+        .filter((el) => {
+          if (el.hasAttribute("onclick")) return true;
+          // React attaches handlers at the root, so the pointer cursor is the
+          // best DOM-visible hint. Only flag the outermost element, since
+          // descendants inherit the cursor.
+          const cursor = window.getComputedStyle(el).cursor;
+          const parent = el.parentElement;
+          return (
+            cursor === "pointer" &&
+            (!parent || window.getComputedStyle(parent).cursor !== "pointer")
+          );
+        })
+        .map((el) => ({
+          severity: "critical",
+          wcag: "2.1.1 Keyboard",
+          message: `${describeEl(
+            el
+          )} looks clickable but has no role and cannot receive keyboard focus.`,
+          fix: 'Use a native <button> (or <input type="checkbox">), or add role, tabindex="0" and key handlers.',
+          el,
+        })),
+  },
+  {
+    id: "heading-order",
+    description: "Heading levels should only increase by one",
+    run: ({ nodes }) => {
+      const findings: Omit<AuditFinding, "ruleId" | "node">[] = [];
+      let previous = 0;
+      nodes
+        .filter((n) => n.role === "heading")
+        .forEach((n) => {
+          const level = getHeadingLevel(n.el);
+          if (!level) return;
+          if (previous && level > previous + 1) {
+            findings.push({
+              severity: "moderate",
+              wcag: "1.3.1 Info and Relationships",
+              message: `Heading "${n.name}" jumps from level ${previous} to level ${level}.`,
+              fix: `Use an <h${
+                previous + 1
+              }> here, or restyle the heading with CSS instead of changing its level.`,
+              el: n.el,
+            });
+          }
+          previous = level;
+        });
+      return findings;
+    },
+  },
+];
+
+// =============================
+// 4. Runner
+// =============================
+
+/**
+ * Runs every rule against the collected tree and the raw DOM. Findings are
+ * sorted by severity, then by document order.
+ */
+export const runAudit = (
+  nodes: AccNode[] = collectAccTree(),
+  root: ParentNode = document
+): AuditFinding[] => {
+  const byEl = new Map(nodes.map((n) => [n.el, n]));
+  const findings = AUDIT_RULES.flatMap((rule) =>
+    rule.run({ nodes, root }).map((f) => ({
+      ...f,
+      ruleId: rule.id,
+      node: byEl.get(f.el),
+    }))
+  );
+
+  return findings.sort((a, b) => {
+    const bySeverity =
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity);
+    if (bySeverity) return bySeverity;
+    if (a.el === b.el) return 0;
+    return a.el.compareDocumentPosition(b.el) & Node.DOCUMENT_POSITION_FOLLOWING
+      ? -1
+      : 1;
+  });
+};
@@ -0,0 +1,91 @@
+// src/utils/braille.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  composeBrailleLine,
+  formatBrailleText,
+  toBrailleCells,
+} from "./braille";
+import type { AccNode } from "./utils";
+
+const node = (overrides: Partial<AccNode>): AccNode => ({
+  el: document.createElement("div"),
+  role: "statictext",
+  name: "",
+  description: "",
+  states: [],
+  children: [],
+  depth: 0,
+  ...overrides,
+});
+
+const braille = (text: string, mode?: "uncontracted" | "contracted") =>
+  toBrailleCells(text, mode)
+    .map((c) => c.cell)
+    .join("");
+
+describe("formatBrailleText", () => {
+  it("abbreviates roles and states", () => {
+    expect(
+      formatBrailleText(
+        node({
+          role: "checkbox",
+          name: "Agree",
+          states: ["checked", "required"],
+        })
+      )
+    ).toBe("Agree chk (x) req");
+  });
+
+  it("leaves the role off static text", () => {
+    expect(formatBrailleText(node({ name: "Hello" }))).toBe("Hello");
+  });
+
+  it("shows the heading level", () => {
+    const el = document.createElement("h2");
+    expect(
+      formatBrailleText(node({ el, role: "heading", name: "Intro" }))
+    ).toBe("Intro h2");
+  });
+
+  it("masks password values", () => {
+    const el = document.createElement("input");
+    el.type = "password";
+    el.value = "abc";
+    expect(formatBrailleText(node({ el, role: "textbox", name: "PIN" }))).toBe(
+      "PIN edt ***"
+    );
+  });
+});
+
+describe("toBrailleCells", () => {
+  it("spells out letters, capitals and numbers", () => {
+    expect(braille("Ab")).toBe("⠠⠁⠃");
+    expect(braille("12")).toBe("⠼⠁⠃");
+    // A letter a-j after a number needs the grade 1 indicator
+    expect(braille("1a")).toBe("⠼⠁⠰⠁");
+  });
+
+  it("contracts common words and groups", () => {
+    expect(braille("the", "contracted")).toBe("⠮");
+    expect(braille("and the", "contracted")).toBe("⠯⠀⠮");
+    expect(braille("this", "contracted")).toBe("⠹⠊⠎");
+    expect(braille("the", "uncontracted")).toBe("⠞⠓⠑");
+  });
+
+  it("keeps each cell's print offset", () => {
+    expect(toBrailleCells("A b").map((c) => c.offset)).toEqual([0, 0, 1, 2]);
+  });
+});
+
+describe("composeBrailleLine", () => {
+  it("fills the line with the following nodes", () => {
+    const nodes = ["a", "b", "c"].map((name) => node({ role: "button", name }));
+    const line = composeBrailleLine(nodes, 0, "uncontracted", 8);
+
+    // "a btn", a blank, "b btn"; the line is full before "c"
+    expect(line.map((c) => c.cell).join("")).toBe("⠁⠀⠃⠞⠝⠀⠃⠀⠃⠞⠝");
+    expect(line.map((c) => c.nodeIndex)).toEqual([
+      0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1,
+    ]);
+  });
+});
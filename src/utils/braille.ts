@@ -0,0 +1,366 @@
+// src/utils/braille.ts
+import { getHeadingLevel } from "./announce";
+import type { AccNode } from "./utils";
+
+// =============================
+// 1. Braille Presentation
+// =============================
+
+export type BrailleMode = "uncontracted" | "contracted";
+
+// Abbreviations follow NVDA's braille role labels
+const ROLE_ABBREVIATIONS: Record<string, string> = {
+  button: "btn",
+  link: "lnk",
+  textbox: "edt",
+  searchbox: "edt",
+  combobox: "cbo",
+  checkbox: "chk",
+  switch: "swtch",
+  radio: "rbtn",
+  "radio button": "rbtn",
+  slider: "sldr",
+  spinbutton: "spnbtn",
+  img: "gra",
+  image: "gra",
+  list: "lst",
+  listitem: "lstitm",
+  listbox: "lstbx",
+  option: "opt",
+  menu: "mnu",
+  menubar: "mnubar",
+  menuitem: "mnuitm",
+  tab: "tab",
+  tablist: "tablst",
+  tabpanel: "tabpnl",
+  table: "tbl",
+  grid: "grd",
+  row: "row",
+  cell: "cell",
+  columnheader: "colhdr",
+  rowheader: "rowhdr",
+  dialog: "dlg",
+  alertdialog: "alrt dlg",
+  tree: "tv",
+  treeitem: "tvitm",
+  banner: "bnnr",
+  main: "main",
+  navigation: "navi",
+  contentinfo: "cinf",
+  complementary: "cmpl",
+  search: "srch",
+  region: "rgn",
+  form: "form",
+};
+
+const STATE_ABBREVIATIONS: Record<string, string> = {
+  expanded: "-",
+  collapsed: "+",
+  pressed: "prsd",
+  selected: "sel",
+  disabled: "unav",
+  invalid: "invld",
+  required: "req",
+  readonly: "ro",
+};
+
+const CHECK_MARKS: Record<string, string> = {
+  checked: "(x)",
+  unchecked: "( )",
+  "partially checked": "(-)",
+};
+
+/** Braille line text for a node: name, abbreviated role, value and states. */
+export const formatBrailleText = (node: AccNode): string => {
+  const parts: string[] = [];
+
+  if (node.name) parts.push(node.name);
+
+  if (node.role === "heading") {
+    parts.push(`h${getHeadingLevel(node.el) ?? ""}`);
+  } else if (node.role !== "statictext") {
+    parts.push(ROLE_ABBREVIATIONS[node.role] ?? node.role);
+  }
+
+  const mark = node.states.map((s) => CHECK_MARKS[s]).find(Boolean);
+  if (mark) parts.push(mark);
+
+  if (node.role === "textbox" || node.role === "combobox") {
+    const el = node.el as HTMLInputElement | HTMLTextAreaElement;
+    const value = el.value ?? "";
+    if (value)
+      parts.push(el.type === "password" ? "*".repeat(value.length) : value);
+  } else if (node.value) {
+    parts.push(node.value);
+  }
+
+  node.states
+    .filter((s) => !CHECK_MARKS[s])
+    .forEach((s) => parts.push(STATE_ABBREVIATIONS[s] ?? s));
+
+  return parts.join(" ");
+};
+
+// =============================
+// 2. Cell Encoding
+// =============================
+
+/** "145" -> ⠙ (Unicode braille patterns are U+2800 + one bit per dot) */
+const cell = (dots: string): string =>
+  String.fromCharCode(
+    [...dots].reduce((bits, d) => bits | (1 << (Number(d) - 1)), 0x2800)
+  );
+
+const cells = (...dots: string[]): string => dots.map(cell).join("");
+
+const LETTERS: Record<string, string> = {
+  a: "1",
+  b: "12",
+  c: "14",
+  d: "145",
+  e: "15",
+  f: "124",
+  g: "1245",
+  h: "125",
+  i: "24",
+  j: "245",
+  k: "13",
+  l: "123",
+  m: "134",
+  n: "1345",
+  o: "135",
+  p: "1234",
+  q: "12345",
+  r: "1235",
+  s: "234",
+  t: "2345",
+  u: "136",
+  v: "1236",
+  w: "2456",
+  x: "1346",
+  y: "13456",
+  z: "1356",
+};
+
+// Unified English Braille punctuation
+const PUNCTUATION: Record<string, string> = {
+  ",": cells("2"),
+  ";": cells("23"),
+  ":": cells("25"),
+  ".": cells("256"),
+  "!": cells("235"),
+  "?": cells("236"),
+  "'": cells("3"),
+  '"': cells("236"),
+  "-": cells("36"),
+  "/": cells("456", "34"),
+  "(": cells("5", "126"),
+  ")": cells("5", "345"),
+  "&": cells("4", "12346"),
+  "@": cells("4", "1"),
+  "#": cells("456", "1456"),
+  "%": cells("46", "356"),
+  "+": cells("5", "235"),
+  "=": cells("5", "2356"),
+  "*": cells("5", "35"),
+  _: cells("46", "36"),
+};
+
+const BLANK = cell("");
+const UNKNOWN = cell("123456");
+const CAPITAL = cell("6");
+const NUMBER = cell("3456");
+const GRADE_1 = cell("56");
+const DIGIT_LETTERS = "jabcdefghi";
+
+// Contracted (grade 2) subset: common wordsigns and groupsigns
+const WORDSIGNS: Record<string, string> = {
+  and: cells("12346"),
+  for: cells("123456"),
+  of: cells("12356"),
+  the: cells("2346"),
+  with: cells("23456"),
+  but: cells("12"),
+  can: cells("14"),
+  do: cells("145"),
+  every: cells("15"),
+  from: cells("124"),
+  go: cells("1245"),
+  have: cells("125"),
+  just: cells("245"),
+  knowledge: cells("13"),
+  like: cells("123"),
+  more: cells("134"),
+  not: cells("1345"),
+  people: cells("1234"),
+  quite: cells("12345"),
+  rather: cells("1235"),
+  so: cells("234"),
+  that: cells("2345"),
+  us: cells("136"),
+  very: cells("1236"),
+  will: cells("2456"),
+  it: cells("1346"),
+  you: cells("13456"),
+  as: cells("1356"),
+};
+
+// Longest first so "the" wins over "th"
+const GROUPSIGNS: [string, string][] = [
+  ["and", cells("12346")],
+  ["for", cells("123456")],
+  ["the", cells("2346")],
+  ["with", cells("23456")],
+  ["ing", cells("346")],
+  ["of", cells("12356")],
+  ["ch", cells("16")],
+  ["gh", cells("126")],
+  ["sh", cells("146")],
+  ["th", cells("1456")],
+  ["wh", cells("156")],
+  ["ed", cells("1246")],
+  ["er", cells("12456")],
+  ["ou", cells("1256")],
+  ["ow", cells("246")],
+  ["st", cells("34")],
+  ["ar", cells("345")],
+];
+
+export interface BrailleCell {
+  /** Unicode braille pattern (U+2800–U+283F) */
+  cell: string;
+  /** Offset of the print character this cell came from */
+  offset: number;
+}
+
+// Standalone letters that would otherwise read as a wordsign ("b" = "but")
+const LETTER_WORDSIGNS = "bcdefghjklmnpqrstuvwxyz";
+
+const push = (out: BrailleCell[], braille: string, offset: number) => {
+  [...braille].forEach((c) => out.push({ cell: c, offset }));
+};
+
+const translateLetters = (
+  word: string,
+  start: number,
+  out: BrailleCell[],
+  contracted: boolean
+) => {
+  let i = 0;
+  while (i < word.length) {
+    const rest = word.slice(i);
+    const group = contracted
+      ? GROUPSIGNS.find(
+          // "ing" may not begin a word
+          ([print]) => rest.startsWith(print) && !(print === "ing" && i === 0)
+        )
+      : undefined;
+
+    if (group) {
+      push(out, group[1], start + i);
+      i += group[0].length;
+      continue;
+    }
+
+    const ch = word[i]!;
+    const lower = ch.toLowerCase();
+    if (ch !== lower) push(out, CAPITAL, start + i);
+    push(out, cell(LETTERS[lower]!), start + i);
+    i++;
+  }
+};
+
+/**
+ * Translates print text to braille cells. Contracted mode applies a common
+ * subset of English grade 2 contractions; everything else is spelled out.
+ */
+export const toBrailleCells = (
+  text: string,
+  mode: BrailleMode = "uncontracted"
+): BrailleCell[] => {
+  const out: BrailleCell[] = [];
+
+  for (const match of text.matchAll(/[a-z]+|[0-9]+|\s+|./gi)) {
+    const token = match[0];
+    const start = match.index;
+
+    if (/^\s+$/.test(token)) {
+      push(out, BLANK, start);
+    } else if (/^[0-9]+$/.test(token)) {
+      push(out, NUMBER, start);
+      [...token].forEach((d, i) =>
+        push(out, cell(LETTERS[DIGIT_LETTERS[Number(d)]!]!), start + i)
+      );
+      // A letter a-j right after a number would read as a digit
+      if (/^[a-j]/i.test(text.slice(start + token.length))) {
+        push(out, GRADE_1, start + token.length);
+      }
+    } else if (/^[a-z]+$/i.test(token)) {
+      const lower = token.toLowerCase();
+      const allCaps = token.length > 1 && token === token.toUpperCase();
+      const capitalized =
+        token !== lower && token === lower[0]!.toUpperCase() + lower.slice(1);
+      // Mixed-case words ("iPhone") are spelled out letter by letter
+      const contract =
+        mode === "contracted" && (allCaps || capitalized || token === lower);
+
+      if (!contract && !allCaps) {
+        translateLetters(token, start, out, false);
+        continue;
+      }
+
+      if (allCaps) push(out, CAPITAL + CAPITAL, start);
+      else if (capitalized) push(out, CAPITAL, start);
+
+      const wordsign = contract ? WORDSIGNS[lower] : undefined;
+      if (wordsign) {
+        push(out, wordsign, start);
+      } else {
+        if (
+          contract &&
+          lower.length === 1 &&
+          LETTER_WORDSIGNS.includes(lower)
+        ) {
+          push(out, GRADE_1, start);
+        }
+        translateLetters(lower, start, out, contract);
+      }
+    } else {
+      push(out, PUNCTUATION[token] ?? UNKNOWN, start);
+    }
+  }
+
+  return out;
+};
+
+// =============================
+// 3. Display Line
+// =============================
+
+export interface DisplayCell extends BrailleCell {
+  /** Node the cell belongs to, for cursor routing */
+  nodeIndex: number;
+}
+
+/**
+ * The current node followed by as many of the next nodes as fit in
+ * `minLength` cells, separated by blank cells (like browse mode lines).
+ */
+export const composeBrailleLine = (
+  nodes: AccNode[],
+  index: number,
+  mode: BrailleMode,
+  minLength: number
+): DisplayCell[] => {
+  const line: DisplayCell[] = [];
+  for (let i = index; i >= 0 && i < nodes.length; i++) {
+    if (i > index) {
+      if (line.length >= minLength) break;
+      line.push({ cell: BLANK, offset: -1, nodeIndex: i });
+    }
+    toBrailleCells(formatBrailleText(nodes[i]!), mode).forEach((c) =>
+      line.push({ ...c, nodeIndex: i })
+    );
+  }
+  return line;
+};
@@ -0,0 +1,130 @@
+// src/utils/earcons.ts
+
+// =============================
+// 1. Cue Definitions
+// =============================
+
+export type EarconId =
+  | "boundary"
+  | "notFound"
+  | "formField"
+  | "focusMode"
+  | "browseMode"
+  | "toggleOn"
+  | "toggleOff";
+
+type Tone = {
+  freq: number;
+  /** Seconds */
+  duration: number;
+  /** Seconds after the cue starts */
+  delay?: number;
+  type?: OscillatorType;
+  gain?: number;
+};
+
+export const EARCONS: Record<EarconId, { label: string; tones: Tone[] }> = {
+  boundary: {
+    label: "Start / end of document",
+    tones: [{ freq: 196, duration: 0.14, type: "square", gain: 0.08 }],
+  },
+  notFound: {
+    label: "Nothing found",
+    tones: [
+      { freq: 392, duration: 0.08 },
+      { freq: 294, duration: 0.12, delay: 0.09 },
+    ],
+  },
+  formField: {
+    label: "Form field",
+    tones: [{ freq: 1047, duration: 0.05, type: "triangle" }],
+  },
+  focusMode: {
+    label: "Focus mode",
+    tones: [
+      { freq: 523, duration: 0.06 },
+      { freq: 784, duration: 0.08, delay: 0.06 },
+    ],
+  },
+  browseMode: {
+    label: "Browse mode",
+    tones: [
+      { freq: 784, duration: 0.06 },
+      { freq: 523, duration: 0.08, delay: 0.06 },
+    ],
+  },
+  toggleOn: {
+    label: "Toggle on",
+    tones: [{ freq: 880, duration: 0.07, type: "triangle" }],
+  },
+  toggleOff: {
+    label: "Toggle off",
+    tones: [{ freq: 440, duration: 0.07, type: "triangle" }],
+  },
+};
+
+// =============================
+// 2. Enabled State (HUD toggles)
+// =============================
+
+let enabled = Object.fromEntries(
+  Object.keys(EARCONS).map((id) => [id, true])
+) as Record<EarconId, boolean>;
+const listeners = new Set<() => void>();
+
+export const getEarconSnapshot = () => enabled;
+
+export const subscribeEarcons = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setEarconEnabled = (id: EarconId, on: boolean): void => {
+  enabled = { ...enabled, [id]: on };
+  listeners.forEach((l) => l());
+};
+
+// =============================
+// 3. Playback
+// =============================
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === "undefined" || !("AudioContext" in window)) {
+    return null;
+  }
+  audioContext ??= new AudioContext();
+  // Autoplay policy: contexts start suspended until a user gesture
+  if (audioContext.state === "suspended") void audioContext.resume();
+  return audioContext;
+};
+
+/** Plays a short synthesized cue. Silent where WebAudio is unavailable. */
+export const playEarcon = (id: EarconId): void => {
+  if (!enabled[id]) return;
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const start = ctx.currentTime;
+  EARCONS[id].tones.forEach(
+    ({ freq, duration, delay = 0, type = "sine", gain = 0.15 }) => {
+      const osc = ctx.createOscillator();
+      const amp = ctx.createGain();
+      const t0 = start + delay;
+
+      osc.type = type;
+      osc.frequency.setValueAtTime(freq, t0);
+      // Short attack and exponential release avoid clicks
+      amp.gain.setValueAtTime(0.0001, t0);
+      amp.gain.exponentialRampToValueAtTime(gain, t0 + 0.01);
+      amp.gain.exponentialRampToValueAtTime(0.0001, t0 + duration);
+
+      osc.connect(amp).connect(ctx.destination);
+      osc.start(t0);
+      osc.stop(t0 + duration + 0.02);
+    }
+  );
+};
@@ -0,0 +1,87 @@
+// src/utils/keyboardTraps.test.ts
+import { afterEach, describe, expect, it } from "vitest";
+import { getExpectedTabOrder, scanTabOrder } from "./keyboardTraps";
+
+const ids = (els: HTMLElement[]) => els.map((el) => el.id);
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("getExpectedTabOrder", () => {
+  it("puts positive tabindex first, then document order", () => {
+    document.body.innerHTML = `
+      <button id="a">A</button>
+      <div id="b" tabindex="2">B</div>
+      <a id="c" href="#">C</a>
+      <div id="d" tabindex="1">D</div>
+      <div id="e" tabindex="-1">E</div>`;
+    expect(ids(getExpectedTabOrder())).toEqual(["d", "b", "a", "c"]);
+  });
+
+  it("skips disabled, hidden and inert elements", () => {
+    document.body.innerHTML = `
+      <button id="a">A</button>
+      <button id="b" disabled>B</button>
+      <input id="c" type="hidden" />
+      <fieldset disabled><input id="d" /></fieldset>
+      <div inert><button id="e">E</button></div>
+      <a id="f" href="#">F</a>`;
+    expect(ids(getExpectedTabOrder())).toEqual(["a", "f"]);
+  });
+});
+
+describe("scanTabOrder", () => {
+  it("reaches the end of a page without traps", () => {
+    document.body.innerHTML = `
+      <button id="a">A</button>
+      <button id="b" disabled>B</button>
+      <a id="c" href="#">C</a>`;
+    const result = scanTabOrder();
+
+    expect(result.traps).toEqual([]);
+    expect(result.reachedEnd).toBe(true);
+    expect(ids(result.visited)).toEqual(["a", "c"]);
+  });
+
+  it("skips elements that do not take focus", () => {
+    document.body.innerHTML = `
+      <button id="a">A</button>
+      <button id="b">B</button>
+      <button id="c">C</button>`;
+    document.getElementById("b")!.focus = () => {};
+    const result = scanTabOrder();
+
+    expect(result.traps).toEqual([]);
+    expect(ids(result.visited)).toEqual(["a", "c"]);
+  });
+
+  it("reports a cycle that Tab cannot leave", () => {
+    document.body.innerHTML = `
+      <button id="a">A</button>
+      <div role="dialog">
+        <button id="b">B</button>
+        <button id="c">C</button>
+      </div>
+      <button id="d">D</button>`;
+    const b = document.getElementById("b")!;
+    const c = document.getElementById("c")!;
+    c.addEventListener("keydown", (e) => {
+      if (e.key !== "Tab") return;
+      e.preventDefault();
+      b.focus();
+    });
+    const result = scanTabOrder();
+
+    expect(result.traps.map((t) => ids(t.elements))).toEqual([["b", "c"]]);
+    expect(result.traps[0]!.inDialog).toBe(true);
+    expect(result.reachedEnd).toBe(true);
+  });
+
+  it("restores focus afterwards", () => {
+    document.body.innerHTML = `<button id="a">A</button><button id="b">B</button>`;
+    document.getElementById("b")!.focus();
+    scanTabOrder();
+    expect(document.activeElement?.id).toBe("b");
+  });
+});
@@ -0,0 +1,208 @@
+// src/utils/keyboardTraps.ts
+import { isFocusable, isHidden } from "./utils";
+
+// =============================
+// 1. Types
+// =============================
+
+export interface KeyboardTrap {
+  /** The focus cycle, in the order Tab visits it. */
+  elements: HTMLElement[];
+  /** Whole cycle is inside a dialog, where Escape usually lets users out. */
+  inDialog: boolean;
+}
+
+export interface TabScanResult {
+  /** Tab order predicted from tabindex and document order. */
+  expected: HTMLElement[];
+  /** Every element focus actually landed on, in order. */
+  visited: HTMLElement[];
+  traps: KeyboardTrap[];
+  /** Tab eventually left the last element for the browser chrome. */
+  reachedEnd: boolean;
+}
+
+const DIALOG_SELECTOR = "dialog, [role='dialog'], [role='alertdialog']";
+
+// =============================
+// 2. Expected Order
+// =============================
+
+let scanning = false;
+
+/** True while `scanTabOrder` is moving focus, so listeners can ignore it. */
+export const isTabScanRunning = (): boolean => scanning;
+
+// tabIndex alone reports 0 for disabled controls and hidden inputs
+const isTabbable = (el: HTMLElement): boolean =>
+  el.tabIndex >= 0 &&
+  isFocusable(el) &&
+  !isHidden(el) &&
+  !el.matches(":disabled, input[type='hidden']") &&
+  !el.closest("[inert]");
+
+/**
+ * Sequential focus order as the browser builds it: positive tabindex values
+ * first (ascending, ties in document order), then tabindex 0 in document
+ * order.
+ */
+export const getExpectedTabOrder = (
+  root: ParentNode = document
+): HTMLElement[] => {
+  const tabbable = Array.from(root.querySelectorAll<HTMLElement>("*")).filter(
+    isTabbable
+  );
+  const positive = tabbable
+    .filter((el) => el.tabIndex > 0)
+    .sort((a, b) => a.tabIndex - b.tabIndex);
+  return [...positive, ...tabbable.filter((el) => el.tabIndex === 0)];
+};
+
+// Where the browser's own Tab handling moves focus from `from`
+const nextInOrder = (
+  from: HTMLElement,
+  expected: HTMLElement[]
+): HTMLElement | undefined => {
+  const i = expected.indexOf(from);
+  if (i >= 0) return expected[i + 1];
+  // Focused by script but not tabbable: continue from its document position
+  return expected.find(
+    (el) =>
+      el.tabIndex === 0 &&
+      !!(from.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_FOLLOWING)
+  );
+};
+
+// =============================
+// 3. Scan
+// =============================
+
+const activeElement = (): HTMLElement | null =>
+  document.activeElement instanceof HTMLElement &&
+  document.activeElement !== document.body
+    ? document.activeElement
+    : null;
+
+// False when focus() did nothing, e.g. an element a script disabled. A focus
+// handler sending focus elsewhere still counts: the element was reached.
+const receivesFocus = (el: HTMLElement): boolean => {
+  let received = false;
+  const onFocus = () => {
+    received = true;
+  };
+  el.addEventListener("focus", onFocus);
+  el.focus({ preventScroll: true });
+  el.removeEventListener("focus", onFocus);
+  return received || document.activeElement === el;
+};
+
+/**
+ * Focuses `start` or, like the browser, the first element after it that
+ * takes focus. Returns where focus ended up.
+ */
+const focusFrom = (
+  start: HTMLElement | undefined,
+  expected: HTMLElement[]
+): HTMLElement | "end" | null => {
+  let el = start;
+  while (el && !receivesFocus(el)) el = nextInOrder(el, expected);
+  return el ? activeElement() : "end";
+};
+
+/**
+ * One Tab press from `from`. Page scripts see a real keydown and can cancel
+ * it or move focus; otherwise focus goes where the browser would put it,
+ * where blur/focus handlers may still redirect it.
+ */
+const pressTab = (
+  from: HTMLElement,
+  expected: HTMLElement[]
+): HTMLElement | "end" | null => {
+  const event = new KeyboardEvent("keydown", {
+    key: "Tab",
+    code: "Tab",
+    bubbles: true,
+    cancelable: true,
+  });
+  from.dispatchEvent(event);
+
+  const after = activeElement();
+  if (event.defaultPrevented || after !== from) return after;
+
+  return focusFrom(nextInOrder(from, expected), expected);
+};
+
+const makeTrap = (elements: HTMLElement[]): KeyboardTrap => {
+  const dialog = elements[0]?.closest(DIALOG_SELECTOR);
+  return {
+    elements,
+    inDialog: !!dialog && elements.every((el) => dialog.contains(el)),
+  };
+};
+
+/**
+ * Walks the real Tab sequence from the first tabbable element, following
+ * wherever page scripts send focus, and reports cycles that never reach the
+ * end of the document (WCAG 2.1.2 No Keyboard Trap). After each trap the
+ * walk resumes past it, so later traps are found too. Focus is restored
+ * afterwards.
+ */
+export const scanTabOrder = (): TabScanResult => {
+  const expected = getExpectedTabOrder();
+  const result: TabScanResult = {
+    expected,
+    visited: [],
+    traps: [],
+    reachedEnd: false,
+  };
+  if (!expected.length) {
+    result.reachedEnd = true;
+    return result;
+  }
+
+  const original = activeElement();
+  scanning = true;
+  try {
+    // Each element is worth a few visits; anything more is a runaway script
+    const limit = expected.length * 3 + 10;
+    let path: HTMLElement[] = [];
+    let current = focusFrom(expected[0], expected);
+
+    for (
+      let steps = 0;
+      current && current !== "end" && steps < limit;
+      steps++
+    ) {
+      const seenAt = path.indexOf(current);
+      if (seenAt >= 0) {
+        const cycle = path.slice(seenAt);
+        result.traps.push(makeTrap(cycle));
+        // Jump past the trap, as a user would have to by other means
+        const last = cycle.reduce<HTMLElement>(
+          (a, b) =>
+            a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING
+              ? b
+              : a,
+          cycle[0]!
+        );
+        const resume = nextInOrder(last, expected);
+        if (!resume) break;
+        path = [];
+        current = focusFrom(resume, expected);
+        // Focus handlers pull it straight back: nothing past it is reachable
+        if (current instanceof HTMLElement && cycle.includes(current)) break;
+        continue;
+      }
+
+      path.push(current);
+      result.visited.push(current);
+      current = pressTab(current, expected);
+    }
+    result.reachedEnd = current === "end";
+  } finally {
+    if (original) original.focus({ preventScroll: true });
+    else activeElement()?.blur();
+    scanning = false;
+  }
+  return result;
+};
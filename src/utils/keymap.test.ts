@@ -0,0 +1,101 @@
+// src/utils/keymap.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  createKeyLookup,
+  eventToBinding,
+  findKeyConflicts,
+  findPageShortcutConflicts,
+  formatBinding,
+  getHelpRows,
+  normalizeBinding,
+  resolveKeymap,
+  sanitizeKeymap,
+} from "./keymap";
+
+const key = (init: KeyboardEventInit) => new KeyboardEvent("keydown", init);
+
+describe("normalizeBinding", () => {
+  it("writes modifiers in a fixed order with canonical names", () => {
+    expect(normalizeBinding("alt+control+arrowup")).toBe("Ctrl+Alt+Up");
+    expect(normalizeBinding("shift+h")).toBe("Shift+H");
+    expect(normalizeBinding("Insert+Down")).toBe("SR+Down");
+  });
+
+  it("keeps the plus and space keys", () => {
+    expect(normalizeBinding("Ctrl++")).toBe("Ctrl++");
+    expect(normalizeBinding(" ")).toBe("Space");
+  });
+});
+
+describe("eventToBinding", () => {
+  it("adds the reader key while it is held", () => {
+    expect(eventToBinding(key({ key: "ArrowDown" }), true)).toBe("SR+Down");
+    expect(eventToBinding(key({ key: "ArrowDown" }), false)).toBe("Down");
+  });
+
+  it("uses the physical key for shifted digits", () => {
+    expect(
+      eventToBinding(key({ key: "!", code: "Digit1", shiftKey: true }), false)
+    ).toBe("Shift+1");
+  });
+
+  it("binds a lone modifier to itself", () => {
+    expect(eventToBinding(key({ key: "Control", ctrlKey: true }), false)).toBe(
+      "Ctrl"
+    );
+  });
+});
+
+describe("formatBinding", () => {
+  it("shows the chosen reader key", () => {
+    expect(formatBinding("SR+Down", "CapsLock")).toBe("CapsLock+Down");
+    expect(formatBinding("Shift+S")).toBe("Shift+S");
+  });
+});
+
+describe("keymaps", () => {
+  it("applies overrides over the defaults", () => {
+    const keymap = resolveKeymap({ nextHeading: ["J"] });
+    const lookup = createKeyLookup(keymap);
+
+    expect(lookup.get("J")).toBe("nextHeading");
+    expect(lookup.has("H")).toBe(false);
+    expect(lookup.get("SR+Down")).toBe("sayAll");
+  });
+
+  it("reports keys bound to two commands", () => {
+    const conflicts = findKeyConflicts(resolveKeymap({ nextHeading: ["B"] }));
+    expect(conflicts).toEqual([
+      { binding: "B", commands: ["nextHeading", "nextButton"] },
+    ]);
+  });
+
+  it("drops unknown commands and malformed bindings from storage", () => {
+    expect(
+      sanitizeKeymap({
+        nextHeading: ["shift+j"],
+        prevHeading: "J",
+        madeUp: ["X"],
+      })
+    ).toEqual({ nextHeading: ["Shift+J"] });
+    expect(sanitizeKeymap(null)).toEqual({});
+  });
+
+  it("merges both directions of a command into one help row", () => {
+    const row = getHelpRows(resolveKeymap()).find((r) => r.label === "Lines");
+    expect(row?.keys).toEqual(["Down", "Up"]);
+  });
+});
+
+describe("findPageShortcutConflicts", () => {
+  it("finds page shortcuts the keymap takes", () => {
+    document.body.innerHTML = `
+      <button aria-keyshortcuts="h">Help</button>
+      <button aria-keyshortcuts="Control+Q">Quit</button>`;
+    const conflicts = findPageShortcutConflicts(resolveKeymap());
+
+    expect(conflicts.map((c) => [c.binding, c.command, c.source])).toEqual([
+      ["H", "nextHeading", "aria-keyshortcuts"],
+    ]);
+  });
+});
@@ -0,0 +1,480 @@
+// src/utils/keymap.ts
+
+// =============================
+// 1. Commands
+// =============================
+
+export type CommandGroup =
+  | "Navigation"
+  | "Quick Navigation"
+  | "Tables"
+  | "Reader";
+
+// [command suffix, help row, noun, default key]; Shift+key moves backwards
+const QUICK_NAV = [
+  ["Heading", "Headings", "heading", "H"],
+  ["Button", "Buttons", "button", "B"],
+  ["Link", "Links", "link", "L"],
+  ["Table", "Tables", "table", "T"],
+  ["Graphic", "Graphics", "graphic", "G"],
+  ["FormField", "Form fields", "form field", "F"],
+  ["Landmark", "Landmarks", "landmark", "D"],
+  ["ListItem", "List items", "list item", "I"],
+  ["Heading1", "Heading level 1", "heading level 1", "1"],
+  ["Heading2", "Heading level 2", "heading level 2", "2"],
+  ["Heading3", "Heading level 3", "heading level 3", "3"],
+  ["Heading4", "Heading level 4", "heading level 4", "4"],
+  ["Heading5", "Heading level 5", "heading level 5", "5"],
+  ["Heading6", "Heading level 6", "heading level 6", "6"],
+] as const;
+
+export type QuickNavTarget = (typeof QUICK_NAV)[number][0];
+
+export type CommandId =
+  | "nextElement"
+  | "prevElement"
+  | "nextLine"
+  | "prevLine"
+  | "nextWord"
+  | "prevWord"
+  | "nextCharacter"
+  | "prevCharacter"
+  | "activate"
+  | "exit"
+  | `next${QuickNavTarget}`
+  | `prev${QuickNavTarget}`
+  | "cellUp"
+  | "cellDown"
+  | "cellLeft"
+  | "cellRight"
+  | "sayAll"
+  | "toggleMode"
+  | "elementsList"
+  | "stopSpeech"
+  | "passNextKey"
+  | "toggleQuickNav";
+
+export interface Command {
+  id: CommandId;
+  label: string;
+  group: CommandGroup;
+  /** Help panel row shared by both directions of a command, e.g. "Lines". */
+  summary?: string;
+  /** Default bindings, in `normalizeBinding` form. */
+  keys: string[];
+  /** Also runs in focus mode, where other keys go to the widget. */
+  global?: boolean;
+}
+
+const pair = (
+  group: CommandGroup,
+  summary: string,
+  noun: string,
+  [next, nextKeys]: [CommandId, string[]],
+  [prev, prevKeys]: [CommandId, string[]]
+): Command[] => [
+  { id: next, label: `Next ${noun}`, group, summary, keys: nextKeys },
+  { id: prev, label: `Previous ${noun}`, group, summary, keys: prevKeys },
+];
+
+export const COMMANDS: Command[] = [
+  ...pair(
+    "Navigation",
+    "Elements",
+    "element",
+    ["nextElement", ["Right"]],
+    ["prevElement", ["Left"]]
+  ),
+  ...pair(
+    "Navigation",
+    "Lines",
+    "line",
+    ["nextLine", ["Down"]],
+    ["prevLine", ["Up"]]
+  ),
+  ...pair(
+    "Navigation",
+    "Words",
+    "word",
+    ["nextWord", ["Ctrl+Right"]],
+    ["prevWord", ["Ctrl+Left"]]
+  ),
+  ...pair(
+    "Navigation",
+    "Characters",
+    "character",
+    ["nextCharacter", ["Alt+Right"]],
+    ["prevCharacter", ["Alt+Left"]]
+  ),
+  {
+    id: "activate",
+    label: "Activate",
+    group: "Navigation",
+    keys: ["Enter", "Space"],
+  },
+  {
+    id: "exit",
+    label: "Exit focus",
+    group: "Navigation",
+    keys: ["Esc"],
+    global: true,
+  },
+  ...QUICK_NAV.flatMap(([target, summary, noun, key]) =>
+    pair(
+      "Quick Navigation",
+      summary,
+      noun,
+      [`next${target}`, [key]],
+      [`prev${target}`, [`Shift+${key}`]]
+    )
+  ),
+  { id: "cellUp", label: "Cell above", group: "Tables", keys: ["Ctrl+Alt+Up"] },
+  {
+    id: "cellDown",
+    label: "Cell below",
+    group: "Tables",
+    keys: ["Ctrl+Alt+Down"],
+  },
+  {
+    id: "cellLeft",
+    label: "Cell to the left",
+    group: "Tables",
+    keys: ["Ctrl+Alt+Left"],
+  },
+  {
+    id: "cellRight",
+    label: "Cell to the right",
+    group: "Tables",
+    keys: ["Ctrl+Alt+Right"],
+  },
+  {
+    id: "sayAll",
+    label: "Say all",
+    group: "Reader",
+    keys: ["SR+Down"],
+    global: true,
+  },
+  {
+    id: "toggleMode",
+    label: "Browse/Focus mode",
+    group: "Reader",
+    keys: ["SR+Space"],
+    global: true,
+  },
+  {
+    id: "elementsList",
+    label: "Elements list",
+    group: "Reader",
+    keys: ["SR+F7"],
+    global: true,
+  },
+  {
+    id: "stopSpeech",
+    label: "Stop speech",
+    group: "Reader",
+    keys: ["Ctrl"],
+    global: true,
+  },
+  {
+    id: "passNextKey",
+    label: "Pass next key through",
+    group: "Reader",
+    keys: ["SR+F2"],
+    global: true,
+  },
+  {
+    id: "toggleQuickNav",
+    label: "Single-letter navigation on/off",
+    group: "Reader",
+    keys: ["SR+Shift+Space"],
+  },
+];
+
+const COMMANDS_BY_ID = new Map(COMMANDS.map((c) => [c.id, c]));
+
+export const getCommand = (id: CommandId): Command => COMMANDS_BY_ID.get(id)!;
+
+// =============================
+// 2. Bindings
+// =============================
+
+/** Keys that can act as the screen reader key, like NVDA's "NVDA" key. */
+export const READER_KEYS = ["Insert", "CapsLock"] as const;
+
+export type ReaderKey = (typeof READER_KEYS)[number];
+
+export const DEFAULT_READER_KEY: ReaderKey = "Insert";
+
+/**
+ * Whether the reader key is down according to the event itself, or null when
+ * only its keydown/keyup can tell. macOS treats CapsLock as a lock: keydown
+ * when it turns on, keyup only when it turns off, so there the lock state
+ * every key event carries is more reliable than waiting for keyup.
+ */
+export const getReaderKeyState = (
+  e: KeyboardEvent,
+  readerKey: ReaderKey
+): boolean | null => {
+  const isApple =
+    typeof navigator !== "undefined" &&
+    /Mac|iPhone|iPad/.test(navigator.platform);
+  return readerKey === "CapsLock" && isApple && "getModifierState" in e
+    ? e.getModifierState("CapsLock")
+    : null;
+};
+
+// Modifiers in the order bindings are written. "SR" is the screen reader key,
+// so bindings stay the same whichever key the user holds for it
+const MODIFIERS = ["SR", "Ctrl", "Alt", "Shift", "Meta"];
+
+// Lower-cased `KeyboardEvent.key` values and aliases, to the names bindings use
+const KEY_NAMES: Record<string, string> = {
+  " ": "Space",
+  space: "Space",
+  spacebar: "Space",
+  arrowup: "Up",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+  escape: "Esc",
+  esc: "Esc",
+  enter: "Enter",
+  control: "Ctrl",
+  ctrl: "Ctrl",
+  alt: "Alt",
+  shift: "Shift",
+  meta: "Meta",
+  command: "Meta",
+  os: "Meta",
+  // Bindings saved before the reader key was configurable
+  insert: "SR",
+  sr: "SR",
+};
+
+const normalizeKey = (key: string): string => {
+  const name = KEY_NAMES[key.toLowerCase()] ?? key;
+  return name.length === 1 ? name.toUpperCase() : name;
+};
+
+// Modifiers first, in a fixed order, so equal bindings compare equal
+const joinBinding = (modifiers: Set<string>, key: string | null): string =>
+  [...MODIFIERS.filter((m) => modifiers.has(m)), ...(key ? [key] : [])].join(
+    "+"
+  );
+
+/**
+ * Canonical form of a typed or stored binding: "ctrl+alt+arrowup" and
+ * "Control+Alt+Up" both become "Ctrl+Alt+Up".
+ */
+export const normalizeBinding = (binding: string): string => {
+  const parts = binding.split("+");
+  // "Ctrl++" binds the plus key itself
+  if (parts.length > 1 && parts[parts.length - 1] === "") {
+    parts.splice(-2, 2, "+");
+  }
+  const modifiers = new Set<string>();
+  let key: string | null = null;
+  parts.forEach((part) => {
+    const name = normalizeKey(part);
+    if (MODIFIERS.includes(name)) modifiers.add(name);
+    else key = name;
+  });
+  return joinBinding(modifiers, key);
+};
+
+/**
+ * The binding a key press matches. A lone modifier press ("Ctrl") is its own
+ * binding; `readerKeyHeld` adds the "SR" modifier.
+ */
+export const eventToBinding = (
+  e: KeyboardEvent,
+  readerKeyHeld: boolean
+): string => {
+  const modifiers = new Set<string>();
+  if (readerKeyHeld) modifiers.add("SR");
+  if (e.ctrlKey) modifiers.add("Ctrl");
+  if (e.altKey) modifiers.add("Alt");
+  if (e.shiftKey) modifiers.add("Shift");
+  if (e.metaKey) modifiers.add("Meta");
+
+  let key = normalizeKey(e.key);
+  // Shift+1 types "!" and Alt+letters type symbols on macOS, so use the
+  // physical key for those
+  const digit = /^Digit(\d)$/.exec(e.code);
+  const letter = /^Key([A-Z])$/.exec(e.code);
+  if (e.shiftKey && digit) key = digit[1]!;
+  if (e.altKey && letter) key = letter[1]!;
+
+  if (MODIFIERS.includes(key)) {
+    modifiers.add(key);
+    return joinBinding(modifiers, null);
+  }
+  return joinBinding(modifiers, key);
+};
+
+/** Whether a key press is only a modifier (still waiting for the real key). */
+export const isModifierKey = (e: KeyboardEvent): boolean =>
+  MODIFIERS.includes(normalizeKey(e.key));
+
+/** A binding as the user types it, e.g. "SR+Down" as "CapsLock+Down". */
+export const formatBinding = (
+  binding: string,
+  readerKey: ReaderKey = DEFAULT_READER_KEY
+): string => binding.replace(/^SR(?=\+|$)/, readerKey);
+
+export const formatKeys = (
+  keys: string[],
+  readerKey: ReaderKey = DEFAULT_READER_KEY
+): string =>
+  keys.length
+    ? keys.map((k) => formatBinding(k, readerKey)).join(" or ")
+    : "Unbound";
+
+// =============================
+// 3. Keymaps
+// =============================
+
+export type Keymap = Record<CommandId, string[]>;
+
+/** The user's rebindings; commands not listed keep their default keys. */
+export type KeymapOverrides = Partial<Keymap>;
+
+export const resolveKeymap = (overrides: KeymapOverrides = {}): Keymap =>
+  Object.fromEntries(
+    COMMANDS.map((c) => [c.id, overrides[c.id] ?? c.keys])
+  ) as Keymap;
+
+/** Binding to command. When two commands share a key, the first one wins. */
+export const createKeyLookup = (keymap: Keymap): Map<string, CommandId> => {
+  const lookup = new Map<string, CommandId>();
+  COMMANDS.forEach((c) =>
+    keymap[c.id].forEach((binding) => {
+      if (!lookup.has(binding)) lookup.set(binding, c.id);
+    })
+  );
+  return lookup;
+};
+
+/** Keeps only known commands with string bindings, for stored overrides. */
+export const sanitizeKeymap = (saved: unknown): KeymapOverrides => {
+  const result: KeymapOverrides = {};
+  if (!saved || typeof saved !== "object") return result;
+  Object.entries(saved).forEach(([id, keys]) => {
+    if (
+      COMMANDS_BY_ID.has(id as CommandId) &&
+      Array.isArray(keys) &&
+      keys.every((k) => typeof k === "string")
+    ) {
+      result[id as CommandId] = keys.map(normalizeBinding).filter(Boolean);
+    }
+  });
+  return result;
+};
+
+// =============================
+// 4. Conflicts
+// =============================
+
+export interface KeyConflict {
+  binding: string;
+  /** Every command bound to it; only the first one runs. */
+  commands: CommandId[];
+}
+
+export const findKeyConflicts = (keymap: Keymap): KeyConflict[] => {
+  const owners = new Map<string, CommandId[]>();
+  COMMANDS.forEach((c) =>
+    keymap[c.id].forEach((binding) =>
+      owners.set(binding, [...(owners.get(binding) ?? []), c.id])
+    )
+  );
+  return [...owners]
+    .filter(([, commands]) => commands.length > 1)
+    .map(([binding, commands]) => ({ binding, commands }));
+};
+
+export interface PageShortcut {
+  binding: string;
+  command: CommandId;
+  el: HTMLElement;
+  source: "accesskey" | "aria-keyshortcuts";
+}
+
+// Chrome and Firefox open access keys with Alt (Windows, Linux) or
+// Ctrl+Alt (macOS), optionally with Shift
+const accessKeyBindings = (key: string): string[] =>
+  ["Alt", "Ctrl+Alt", "Alt+Shift"].map((m) => normalizeBinding(`${m}+${key}`));
+
+/**
+ * Shortcuts the page declares (`accesskey`, `aria-keyshortcuts`) that the
+ * simulator's keymap takes first, since it listens in the capture phase.
+ */
+export const findPageShortcutConflicts = (
+  keymap: Keymap,
+  root: ParentNode = document
+): PageShortcut[] => {
+  const lookup = createKeyLookup(keymap);
+  const conflicts: PageShortcut[] = [];
+  const check = (
+    el: HTMLElement,
+    bindings: string[],
+    source: PageShortcut["source"]
+  ) =>
+    bindings.forEach((binding) => {
+      const command = lookup.get(binding);
+      if (command) conflicts.push({ binding, command, el, source });
+    });
+
+  root.querySelectorAll<HTMLElement>("[accesskey]").forEach((el) =>
+    el
+      .getAttribute("accesskey")!
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((key) => check(el, accessKeyBindings(key), "accesskey"))
+  );
+  root
+    .querySelectorAll<HTMLElement>("[aria-keyshortcuts]")
+    .forEach((el) =>
+      check(
+        el,
+        el
+          .getAttribute("aria-keyshortcuts")!
+          .split(/\s+/)
+          .filter(Boolean)
+          .map(normalizeBinding),
+        "aria-keyshortcuts"
+      )
+    );
+  return conflicts;
+};
+
+// =============================
+// 5. Help
+// =============================
+
+export interface HelpRow {
+  group: CommandGroup;
+  label: string;
+  keys: string[];
+}
+
+/** One row per command, or per summary for commands with two directions. */
+export const getHelpRows = (keymap: Keymap): HelpRow[] => {
+  const rows: HelpRow[] = [];
+  const bySummary = new Map<string, HelpRow>();
+  COMMANDS.forEach((c) => {
+    const existing = c.summary && bySummary.get(`${c.group}/${c.summary}`);
+    if (existing) {
+      existing.keys.push(...keymap[c.id]);
+      return;
+    }
+    const row = {
+      group: c.group,
+      label: c.summary ?? c.label,
+      keys: [...keymap[c.id]],
+    };
+    if (c.summary) bySummary.set(`${c.group}/${c.summary}`, row);
+    rows.push(row);
+  });
+  return rows;
+};
@@ -0,0 +1,149 @@
+// src/utils/liveRegions.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createLiveRegionEngine,
+  getLiveRegionConfig,
+  type LiveAnnouncement,
+} from "./liveRegions";
+
+describe("getLiveRegionConfig", () => {
+  const region = (html: string) => {
+    document.body.innerHTML = html;
+    return document.body.firstElementChild as HTMLElement;
+  };
+
+  it("uses the implicit semantics of live roles", () => {
+    const config = getLiveRegionConfig(region(`<div role="alert"></div>`));
+    expect(config).toMatchObject({ politeness: "assertive", atomic: true });
+  });
+
+  it("lets aria attributes override the role", () => {
+    const config = getLiveRegionConfig(
+      region(
+        `<div role="status" aria-live="assertive" aria-atomic="false" aria-relevant="all"></div>`
+      )
+    );
+    expect(config).toMatchObject({ politeness: "assertive", atomic: false });
+    expect([...config.relevant].sort()).toEqual([
+      "additions",
+      "removals",
+      "text",
+    ]);
+  });
+
+  it("keeps timers silent unless they opt in", () => {
+    expect(
+      getLiveRegionConfig(region(`<div role="timer"></div>`)).politeness
+    ).toBe("off");
+  });
+});
+
+describe("createLiveRegionEngine", () => {
+  let announced: LiveAnnouncement[];
+  let engine: ReturnType<typeof createLiveRegionEngine>;
+  let observer: MutationObserver;
+
+  // Records take a microtask to reach the observer
+  const settle = async () => {
+    await Promise.resolve();
+    vi.advanceTimersByTime(200);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    announced = [];
+    engine = createLiveRegionEngine((a) => announced.push(a));
+    observer = new MutationObserver((records) =>
+      records.forEach(engine.handleMutation)
+    );
+    observer.observe(document.body, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ["aria-busy"],
+    });
+  });
+
+  afterEach(() => {
+    observer.disconnect();
+    engine.dispose();
+    vi.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  const texts = () => announced.map((a) => a.text);
+
+  it("announces additions to a polite region", async () => {
+    document.body.innerHTML = `<div aria-live="polite"><p>old</p></div>`;
+    await settle();
+    announced = [];
+
+    const p = document.createElement("p");
+    p.textContent = "3 items updated";
+    document.querySelector("[aria-live]")!.appendChild(p);
+    await settle();
+
+    expect(texts()).toEqual(["3 items updated"]);
+  });
+
+  it("announces an alert inserted with its content once", async () => {
+    const toast = document.createElement("div");
+    toast.setAttribute("role", "alert");
+    toast.textContent = "Saved!";
+    document.body.appendChild(toast);
+    await settle();
+
+    expect(texts()).toEqual(["Alert: Saved!"]);
+  });
+
+  it("leaves a region nested in an addition to speak for itself", async () => {
+    document.body.innerHTML = `<div aria-live="polite"></div>`;
+    await settle();
+
+    const card = document.createElement("div");
+    card.innerHTML = `<p>Order placed</p><div role="alert">Card declined</div>`;
+    document.querySelector("[aria-live]")!.appendChild(card);
+    await settle();
+
+    expect(texts()).toEqual(["Alert: Card declined", "Order placed"]);
+  });
+
+  it("speaks assertive announcements before polite ones", async () => {
+    document.body.innerHTML = `<div role="status"></div><div role="alert"></div>`;
+    await settle();
+
+    document.querySelector("[role='status']")!.textContent = "Loading";
+    document.querySelector("[role='alert']")!.textContent = "Error";
+    await settle();
+
+    expect(texts()).toEqual(["Alert: Error", "Loading"]);
+  });
+
+  it("holds changes while the region is busy", async () => {
+    document.body.innerHTML = `<div aria-live="polite" aria-busy="true"></div>`;
+    await settle();
+    const region = document.querySelector("[aria-live]")!;
+
+    region.textContent = "Done";
+    await settle();
+    expect(texts()).toEqual([]);
+
+    region.setAttribute("aria-busy", "false");
+    await settle();
+    expect(texts()).toEqual(["Done"]);
+  });
+
+  it("drops identical text repeated within the dedupe window", async () => {
+    document.body.innerHTML = `<div role="status"></div>`;
+    await settle();
+    const region = document.querySelector("[role='status']")!;
+
+    region.textContent = "Saved";
+    await settle();
+    region.textContent = "Saved";
+    await settle();
+
+    expect(texts()).toEqual(["Saved"]);
+  });
+});
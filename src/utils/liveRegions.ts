@@ -0,0 +1,264 @@
+// src/utils/liveRegions.ts
+import { isHidden } from "./utils";
+
+// =============================
+// 1. Types & Implicit Semantics
+// =============================
+
+export type Politeness = "off" | "polite" | "assertive";
+
+export interface LiveAnnouncement {
+  text: string;
+  politeness: Exclude<Politeness, "off">;
+  region: HTMLElement;
+}
+
+export interface LiveRegionConfig {
+  role: string | null;
+  politeness: Politeness;
+  atomic: boolean;
+  relevant: Set<"additions" | "removals" | "text">;
+  busy: boolean;
+}
+
+// https://www.w3.org/TR/wai-aria-1.2/#live_region_roles
+// timer and marquee are live regions whose implicit aria-live is "off":
+// they are only spoken when the author opts in with aria-live.
+const IMPLICIT_LIVE_ROLES: Record<
+  string,
+  { politeness: Politeness; atomic: boolean }
+> = {
+  alert: { politeness: "assertive", atomic: true },
+  status: { politeness: "polite", atomic: true },
+  log: { politeness: "polite", atomic: false },
+  timer: { politeness: "off", atomic: false },
+  marquee: { politeness: "off", atomic: false },
+};
+
+export const LIVE_REGION_SELECTOR = [
+  "[aria-live]",
+  ...Object.keys(IMPLICIT_LIVE_ROLES).map((r) => `[role='${r}']`),
+].join(", ");
+
+// =============================
+// 2. Region Resolution
+// =============================
+
+const normalize = (text: string | null | undefined): string =>
+  (text ?? "").trim().replace(/\s+/g, " ");
+
+export const findLiveRegion = (node: Node): HTMLElement | null => {
+  const el = node instanceof HTMLElement ? node : node.parentElement;
+  return el?.closest<HTMLElement>(LIVE_REGION_SELECTOR) ?? null;
+};
+
+/**
+ * Live regions that arrive already filled, like a toast inserted as
+ * `<div role="alert">Saved!</div>`: the added node itself or regions inside it.
+ */
+export const findInsertedRegions = (added: NodeList): HTMLElement[] =>
+  [...added].flatMap((n) =>
+    n instanceof HTMLElement
+      ? [
+          ...(n.matches(LIVE_REGION_SELECTOR) ? [n] : []),
+          ...n.querySelectorAll<HTMLElement>(LIVE_REGION_SELECTOR),
+        ]
+      : []
+  );
+
+/** Text of a node without the live regions inside it, which speak alone. */
+const textOutsideRegions = (node: Node): string => {
+  if (!(node instanceof HTMLElement)) return normalize(node.textContent);
+  const copy = node.cloneNode(true) as HTMLElement;
+  copy.querySelectorAll(LIVE_REGION_SELECTOR).forEach((r) => r.remove());
+  return normalize(copy.textContent);
+};
+
+export const getLiveRegionConfig = (region: HTMLElement): LiveRegionConfig => {
+  const role = region.getAttribute("role");
+  const implicit = (role && IMPLICIT_LIVE_ROLES[role]) || null;
+
+  const live = region.getAttribute("aria-live");
+  const politeness: Politeness =
+    live === "polite" || live === "assertive" || live === "off"
+      ? live
+      : implicit?.politeness ?? "off";
+
+  const atomicAttr = region.getAttribute("aria-atomic");
+  const atomic =
+    atomicAttr === "true"
+      ? true
+      : atomicAttr === "false"
+      ? false
+      : implicit?.atomic ?? false;
+
+  const relevantAttr = normalize(region.getAttribute("aria-relevant"));
+  const tokens = relevantAttr ? relevantAttr.split(" ") : ["additions", "text"];
+  const relevant = new Set<"additions" | "removals" | "text">();
+  tokens.forEach((t) => {
+    if (t === "all") {
+      relevant.add("additions").add("removals").add("text");
+    } else if (t === "additions" || t === "removals" || t === "text") {
+      relevant.add(t);
+    }
+  });
+
+  return {
+    role,
+    politeness,
+    atomic,
+    relevant,
+    busy: region.getAttribute("aria-busy") === "true",
+  };
+};
+
+// =============================
+// 3. Engine
+// =============================
+
+type PendingChange = {
+  additions: string[];
+  removals: string[];
+  text: string[];
+};
+
+type EngineOptions = {
+  /** Quiet period that batches rapid updates into one announcement. */
+  debounceMs?: number;
+  /** Identical text from the same region within this window is dropped. */
+  dedupeMs?: number;
+};
+
+/**
+ * Turns DOM mutations into live region announcements.
+ *
+ * Changes are collected per region and flushed together after a short quiet
+ * period. Assertive announcements are emitted before polite ones; busy
+ * regions hold their changes until aria-busy is cleared.
+ */
+export const createLiveRegionEngine = (
+  onAnnounce: (announcement: LiveAnnouncement) => void,
+  { debounceMs = 150, dedupeMs = 1000 }: EngineOptions = {}
+) => {
+  const pending = new Map<HTMLElement, PendingChange>();
+  const lastSpoken = new WeakMap<HTMLElement, { text: string; at: number }>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const changeFor = (region: HTMLElement): PendingChange => {
+    let change = pending.get(region);
+    if (!change) {
+      change = { additions: [], removals: [], text: [] };
+      pending.set(region, change);
+    }
+    return change;
+  };
+
+  const compose = (
+    region: HTMLElement,
+    config: LiveRegionConfig,
+    change: PendingChange
+  ): string => {
+    if (config.atomic) return normalize(region.textContent);
+
+    const parts: string[] = [];
+    if (config.relevant.has("additions")) parts.push(...change.additions);
+    if (config.relevant.has("text")) parts.push(...change.text);
+    if (config.relevant.has("removals")) {
+      parts.push(...change.removals.map((t) => `removed ${t}`));
+    }
+    return [...new Set(parts.filter(Boolean))].join(" ");
+  };
+
+  const flush = () => {
+    timer = undefined;
+    const assertive: LiveAnnouncement[] = [];
+    const polite: LiveAnnouncement[] = [];
+
+    pending.forEach((change, region) => {
+      const config = getLiveRegionConfig(region);
+      // Busy regions keep accumulating until aria-busy="false"
+      if (config.busy) return;
+      pending.delete(region);
+
+      if (config.politeness === "off") return;
+      if (!region.isConnected || isHidden(region)) return;
+      if (document.activeElement === region) return;
+
+      const text = compose(region, config, change);
+      if (!text) return;
+
+      const now = Date.now();
+      const last = lastSpoken.get(region);
+      if (last && last.text === text && now - last.at < dedupeMs) return;
+      lastSpoken.set(region, { text, at: now });
+
+      const prefix = config.role === "alert" ? "Alert: " : "";
+      const announcement: LiveAnnouncement = {
+        text: `${prefix}${text}`,
+        politeness: config.politeness,
+        region,
+      };
+      (config.politeness === "assertive" ? assertive : polite).push(
+        announcement
+      );
+    });
+
+    [...assertive, ...polite].forEach(onAnnounce);
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const handleMutation = (m: MutationRecord): void => {
+    // aria-busy cleared: release what the region held back
+    if (m.type === "attributes") {
+      if (
+        m.attributeName === "aria-busy" &&
+        m.target instanceof HTMLElement &&
+        pending.has(m.target)
+      ) {
+        schedule();
+      }
+      return;
+    }
+
+    if (m.type === "childList") {
+      const inserted = findInsertedRegions(m.addedNodes);
+      inserted.forEach((r) =>
+        changeFor(r).additions.push(textOutsideRegions(r))
+      );
+      if (inserted.length) schedule();
+    }
+
+    const region = findLiveRegion(m.target);
+    if (!region) return;
+
+    if (m.type === "characterData") {
+      changeFor(region).text.push(normalize(m.target.textContent));
+    } else if (m.type === "childList") {
+      // An inserted region speaks for itself (above), not for its parent
+      const added = [...m.addedNodes]
+        .filter(
+          (n) => !(n instanceof HTMLElement && n.matches(LIVE_REGION_SELECTOR))
+        )
+        .map(textOutsideRegions)
+        .filter(Boolean);
+      if (!added.length && !m.removedNodes.length) return;
+      const change = changeFor(region);
+      change.additions.push(...added);
+      m.removedNodes.forEach((n) =>
+        change.removals.push(normalize(n.textContent))
+      );
+    }
+    schedule();
+  };
+
+  const dispose = () => {
+    clearTimeout(timer);
+    pending.clear();
+  };
+
+  return { handleMutation, dispose };
+};
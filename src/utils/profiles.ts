@@ -0,0 +1,207 @@
+// src/utils/profiles.ts
+import type { PunctuationLevel } from "./textNavigation";
+
+// =============================
+// 1. Types
+// =============================
+
+export type AnnouncementPart =
+  | "checkState"
+  | "name"
+  | "role"
+  | "description"
+  | "value"
+  | "error"
+  | "states"
+  | "coords";
+
+export type ProfileId = "generic" | "nvda" | "jaws" | "voiceover" | "talkback";
+
+export interface ScreenReaderProfile {
+  id: ProfileId;
+  label: string;
+  /** Role vocabulary overrides. Falls back to ROLE_MAP, then the raw role. */
+  roles: Record<string, string>;
+  /** Order in which the parts of an announcement are spoken. */
+  order: AnnouncementPart[];
+  /** Joins the parts. Punctuation decides how long the synthesizer pauses. */
+  separator: string;
+  quoteName: boolean;
+  capitalizeRole: boolean;
+  heading: (level?: number) => string;
+  /** Spoken form of a landmark. When omitted, ROLE_MAP wording is used. */
+  landmark?: (name: string) => string;
+  /** Parts left out at lower verbosity settings. */
+  omit?: AnnouncementPart[];
+  /** How much punctuation in names, values and descriptions is spoken. */
+  punctuation?: PunctuationLevel;
+}
+
+// =============================
+// 2. Shared Vocabulary
+// =============================
+
+export const LANDMARK_NAMES: Record<string, string> = {
+  banner: "banner",
+  navigation: "navigation",
+  main: "main",
+  contentinfo: "content info",
+  complementary: "complementary",
+  search: "search",
+  region: "region",
+  form: "form",
+};
+
+const DEFAULT_ORDER: AnnouncementPart[] = [
+  "checkState",
+  "name",
+  "role",
+  "description",
+  "value",
+  "error",
+  "states",
+  "coords",
+];
+
+// =============================
+// 3. Profiles
+// =============================
+
+export const PROFILES: Record<ProfileId, ScreenReaderProfile> = {
+  // Matches the simulator's original phrasing.
+  generic: {
+    id: "generic",
+    label: "Generic",
+    roles: {},
+    order: DEFAULT_ORDER,
+    separator: ", ",
+    quoteName: true,
+    capitalizeRole: true,
+    heading: (level) => `Heading${level ? ` level ${level}` : ""}`,
+  },
+  // NVDA: "Email  edit  required  blank" - role before states, short pauses.
+  nvda: {
+    id: "nvda",
+    label: "NVDA",
+    roles: {
+      textbox: "edit",
+      searchbox: "search edit",
+      checkbox: "check box",
+      switch: "toggle button",
+      img: "graphic",
+      image: "graphic",
+    },
+    order: [
+      "name",
+      "role",
+      "checkState",
+      "states",
+      "description",
+      "value",
+      "error",
+      "coords",
+    ],
+    separator: "  ",
+    quoteName: false,
+    capitalizeRole: false,
+    heading: (level) => `heading${level ? `  level ${level}` : ""}`,
+    landmark: (name) => `${name} landmark`,
+  },
+  // JAWS: "Email edit, required, type in text." - landmarks are "regions".
+  jaws: {
+    id: "jaws",
+    label: "JAWS",
+    roles: {
+      textbox: "edit",
+      searchbox: "search edit",
+      checkbox: "check box",
+      combobox: "combo box",
+      img: "graphic",
+      image: "graphic",
+    },
+    order: [
+      "name",
+      "role",
+      "checkState",
+      "states",
+      "value",
+      "description",
+      "error",
+      "coords",
+    ],
+    separator: ", ",
+    quoteName: false,
+    capitalizeRole: false,
+    heading: (level) => `heading level ${level ?? ""}`.trim(),
+    landmark: (name) => `${name} region`,
+  },
+  // VoiceOver (macOS): "Email, text field, required" - value before role.
+  voiceover: {
+    id: "voiceover",
+    label: "VoiceOver",
+    roles: {
+      textbox: "text field",
+      searchbox: "search text field",
+      combobox: "combo box",
+      switch: "switch",
+      img: "image",
+    },
+    order: [
+      "name",
+      "value",
+      "role",
+      "checkState",
+      "states",
+      "error",
+      "coords",
+      "description",
+    ],
+    separator: ", ",
+    quoteName: false,
+    capitalizeRole: false,
+    heading: (level) => `heading level ${level ?? ""}`.trim(),
+    landmark: (name) => name,
+  },
+  // TalkBack: "Email, edit box, required" - states lead for checkables.
+  talkback: {
+    id: "talkback",
+    label: "TalkBack",
+    roles: {
+      textbox: "edit box",
+      searchbox: "search box",
+      checkbox: "checkbox",
+      radio: "radio button",
+      img: "image",
+    },
+    order: [
+      "checkState",
+      "name",
+      "role",
+      "value",
+      "states",
+      "error",
+      "description",
+      "coords",
+    ],
+    separator: ". ",
+    quoteName: false,
+    capitalizeRole: false,
+    heading: (level) => `heading ${level ?? ""}`.trim(),
+    landmark: (name) => name,
+  },
+};
+
+export const DEFAULT_PROFILE: ProfileId = "generic";
+
+// =============================
+// 4. Verbosity
+// =============================
+
+export type Verbosity = "high" | "medium" | "low";
+
+// Announcement parts dropped at each verbosity
+export const VERBOSITY_OMITS: Record<Verbosity, AnnouncementPart[]> = {
+  high: [],
+  medium: ["description"],
+  low: ["description", "coords", "states"],
+};
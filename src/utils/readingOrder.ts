@@ -0,0 +1,136 @@
+// src/utils/readingOrder.ts
+import type { AccNode } from "./utils";
+
+// =============================
+// 1. Types
+// =============================
+
+export interface OrderJump {
+  /** Indexes in `state.nodes` of the nodes read before and after the jump. */
+  from: number;
+  index: number;
+  direction: "backward on the line" | "back up the page";
+  /** CSS that moved the node away from its DOM position, if found. */
+  causes: string[];
+}
+
+type Box = Pick<DOMRect, "top" | "bottom" | "left" | "right">;
+
+// =============================
+// 2. Geometry
+// =============================
+
+// Unrendered nodes (display: contents, zero-size) have no visual position
+export const hasBox = (rect: Box): boolean =>
+  rect.right > rect.left || rect.bottom > rect.top;
+
+const onSameLine = (a: Box, b: Box): boolean => {
+  const overlap = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+  const shorter = Math.min(a.bottom - a.top, b.bottom - b.top);
+  return shorter > 0 && overlap > shorter / 2;
+};
+
+/**
+ * Whether moving from `prev` to `next` goes against the visual reading
+ * direction: leftwards on one line (rightwards in RTL), or back up the page
+ * without moving to a later column.
+ */
+const getJumpDirection = (
+  prev: Box,
+  next: Box,
+  rtl: boolean
+): OrderJump["direction"] | null => {
+  if (onSameLine(prev, next)) {
+    const backward = rtl ? next.left >= prev.right : next.right <= prev.left;
+    return backward ? "backward on the line" : null;
+  }
+  const laterColumn = rtl ? next.right <= prev.left : next.left >= prev.right;
+  return next.bottom <= prev.top && !laterColumn ? "back up the page" : null;
+};
+
+// =============================
+// 3. Causes
+// =============================
+
+/** CSS on `el` (as a layout item) that reorders it visually. */
+const getLayoutCauses = (el: HTMLElement): string[] => {
+  const causes: string[] = [];
+  const style = getComputedStyle(el);
+  const parent = el.parentElement && getComputedStyle(el.parentElement);
+  const parentDisplay = parent?.display ?? "";
+  const isFlexItem = parentDisplay.includes("flex");
+  const isGridItem = parentDisplay.includes("grid");
+
+  if ((isFlexItem || isGridItem) && style.order && style.order !== "0") {
+    causes.push(`${isFlexItem ? "flex" : "grid"} order: ${style.order}`);
+  }
+  if (isFlexItem && parent?.flexDirection.endsWith("-reverse")) {
+    causes.push(`flex-direction: ${parent.flexDirection}`);
+  }
+  if (
+    isGridItem &&
+    [style.gridRowStart, style.gridColumnStart, style.gridArea].some(
+      (v) => v && v !== "auto" && !v.startsWith("auto")
+    )
+  ) {
+    causes.push("grid placement");
+  }
+  if (style.position === "absolute" || style.position === "fixed") {
+    causes.push(`position: ${style.position}`);
+  }
+  if (style.float === "right" || style.float === "left") {
+    causes.push(`float: ${style.float}`);
+  }
+  return causes;
+};
+
+/**
+ * Walks up from `el` to just below the nearest ancestor it shares with
+ * `other`, collecting reordering CSS along the way.
+ */
+const findCauses = (el: HTMLElement, other: HTMLElement): string[] => {
+  const causes: string[] = [];
+  let current: HTMLElement | null = el;
+  while (current && !current.contains(other)) {
+    causes.push(...getLayoutCauses(current));
+    current = current.parentElement;
+  }
+  return causes;
+};
+
+// =============================
+// 4. Detection
+// =============================
+
+/**
+ * Places where the reading order (the order of `nodes`) jumps against the
+ * visual layout. `rects[i]` is the on-screen box of `nodes[i]`.
+ */
+export const findOrderJumps = (nodes: AccNode[], rects: Box[]): OrderJump[] => {
+  const jumps: OrderJump[] = [];
+  let prev = -1;
+  nodes.forEach((node, i) => {
+    const rect = rects[i];
+    if (!rect || !hasBox(rect)) return;
+    if (prev >= 0) {
+      const rtl = getComputedStyle(node.el).direction === "rtl";
+      const direction = getJumpDirection(rects[prev]!, rect, rtl);
+      if (direction) {
+        // Either end may be the one that was moved
+        const from = nodes[prev]!.el;
+        const causes = [
+          ...findCauses(node.el, from),
+          ...findCauses(from, node.el),
+        ];
+        jumps.push({
+          from: prev,
+          index: i,
+          direction,
+          causes: [...new Set(causes)],
+        });
+      }
+    }
+    prev = i;
+  });
+  return jumps;
+};
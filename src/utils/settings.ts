@@ -0,0 +1,201 @@
+// src/utils/settings.ts
+import {
+  DEFAULT_READER_KEY,
+  type KeymapOverrides,
+  READER_KEYS,
+  type ReaderKey,
+  sanitizeKeymap,
+} from "./keymap";
+import {
+  DEFAULT_PROFILE,
+  PROFILES,
+  type ProfileId,
+  VERBOSITY_OMITS,
+  type Verbosity,
+} from "./profiles";
+import { speechQueue } from "./speechQueue";
+import type { PunctuationLevel } from "./textNavigation";
+
+// =============================
+// 1. Types & Defaults
+// =============================
+
+export interface Settings {
+  /** `voiceURI` of the chosen voice; null picks one for the HUD language. */
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  verbosity: Verbosity;
+  punctuation: PunctuationLevel;
+  profile: ProfileId;
+  muted: boolean;
+  /** Whether each page starts behind the screen curtain. */
+  curtain: boolean;
+  hudOpen: boolean;
+  showHelp: boolean;
+  /** Rebound commands; the rest keep their default keys. */
+  keymap: KeymapOverrides;
+  readerKey: ReaderKey;
+  /** Single-letter quick navigation (H, B, 1-6...) in browse mode. */
+  quickNav: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  voiceURI: null,
+  rate: 1,
+  pitch: 1,
+  verbosity: "high",
+  punctuation: "none",
+  profile: DEFAULT_PROFILE,
+  muted: false,
+  curtain: true,
+  hudOpen: true,
+  showHelp: false,
+  keymap: {},
+  readerKey: DEFAULT_READER_KEY,
+  quickNav: true,
+};
+
+export const VERBOSITY_LEVELS = Object.keys(VERBOSITY_OMITS) as Verbosity[];
+
+export const PUNCTUATION_LEVELS: PunctuationLevel[] = [
+  "none",
+  "some",
+  "most",
+  "all",
+];
+
+// Keeps only known keys with values of the right kind, so settings saved by
+// an older version (or edited by hand) cannot break the HUD
+const sanitize = (saved: unknown): Settings => {
+  const result = { ...DEFAULT_SETTINGS };
+  if (!saved || typeof saved !== "object") return result;
+  const s = saved as Record<string, unknown>;
+  const pick = <K extends keyof Settings>(
+    key: K,
+    valid: (v: unknown) => boolean
+  ) => {
+    if (valid(s[key])) result[key] = s[key] as Settings[K];
+  };
+
+  const isNumber = (v: unknown) => typeof v === "number" && isFinite(v);
+  const isBoolean = (v: unknown) => typeof v === "boolean";
+  pick("voiceURI", (v) => v === null || typeof v === "string");
+  pick("rate", isNumber);
+  pick("pitch", isNumber);
+  pick("verbosity", (v) => VERBOSITY_LEVELS.includes(v as Verbosity));
+  pick("punctuation", (v) =>
+    PUNCTUATION_LEVELS.includes(v as PunctuationLevel)
+  );
+  pick("profile", (v) => typeof v === "string" && v in PROFILES);
+  pick("muted", isBoolean);
+  pick("curtain", isBoolean);
+  pick("hudOpen", isBoolean);
+  pick("showHelp", isBoolean);
+  result.keymap = sanitizeKeymap(s.keymap);
+  pick("readerKey", (v) => READER_KEYS.includes(v as ReaderKey));
+  pick("quickNav", isBoolean);
+  return result;
+};
+
+// =============================
+// 2. Storage Backends
+// =============================
+
+const STORAGE_KEY = "srs-settings";
+
+export interface SettingsStorage {
+  load: () => Promise<unknown>;
+  save: (settings: Settings) => void;
+}
+
+const readLocalStorage = (): unknown => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null; // Storage blocked (sandboxed iframe) or corrupt JSON
+  }
+};
+
+/** Per-origin storage, used when the HUD runs inside the app. */
+export const localSettingsStorage: SettingsStorage = {
+  load: async () => readLocalStorage(),
+  save: (settings) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // Private mode or quota exceeded: settings last for this page only
+    }
+  },
+};
+
+/** The part of `chrome.storage.local` (Manifest V3) the settings use. */
+export interface ChromeStorageArea {
+  get: (key: string) => Promise<Record<string, unknown>>;
+  set: (items: Record<string, unknown>) => Promise<void>;
+}
+
+/** Extension storage, so settings follow the tester across sites. */
+export const createChromeSettingsStorage = (
+  area: ChromeStorageArea
+): SettingsStorage => ({
+  load: async () => (await area.get(STORAGE_KEY))[STORAGE_KEY],
+  save: (settings) => {
+    void area.set({ [STORAGE_KEY]: settings });
+  },
+});
+
+// =============================
+// 3. Store
+// =============================
+
+// localStorage is synchronous, so the first render already has the settings
+let settings = sanitize(
+  typeof window === "undefined" ? null : readLocalStorage()
+);
+let storage = localSettingsStorage;
+const listeners = new Set<() => void>();
+
+// Rate and pitch live in the speech queue, which all speech goes through
+const apply = () => {
+  speechQueue.configure({ rate: settings.rate, pitch: settings.pitch });
+  listeners.forEach((l) => l());
+};
+apply();
+
+export const getSettings = () => settings;
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateSettings = (patch: Partial<Settings>): void => {
+  settings = { ...settings, ...patch };
+  storage.save(settings);
+  apply();
+};
+
+export const resetSettings = (): void => updateSettings(DEFAULT_SETTINGS);
+
+/**
+ * Switches to another backend and loads what it has saved. Resolves once
+ * loaded, so callers can wait before rendering the HUD.
+ */
+export const connectSettingsStorage = async (
+  backend: SettingsStorage
+): Promise<void> => {
+  storage = backend;
+  try {
+    const saved = await backend.load();
+    if (saved) {
+      settings = sanitize(saved);
+      apply();
+    }
+  } catch {
+    // Unreadable storage: keep the current settings
+  }
+};
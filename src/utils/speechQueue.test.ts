@@ -0,0 +1,120 @@
+// src/utils/speechQueue.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSpeechQueue, type SpeechEndReason } from "./speechQueue";
+
+// jsdom has no speechSynthesis: `speak` finishes each utterance on a timer
+describe("createSpeechQueue", () => {
+  let queue: ReturnType<typeof createSpeechQueue>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    queue = createSpeechQueue();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const current = () => queue.getSnapshot().current?.text ?? null;
+  const queued = () => queue.getSnapshot().queue.map((e) => e.text);
+
+  it("speaks entries one at a time in order", () => {
+    const done: string[] = [];
+    queue.enqueue("one", "polite", { onend: () => done.push("one") });
+    queue.enqueue("two", "polite", { onend: () => done.push("two") });
+
+    expect(current()).toBe("one");
+    expect(queued()).toEqual(["two"]);
+
+    vi.runAllTimers();
+    expect(done).toEqual(["one", "two"]);
+    expect(current()).toBeNull();
+  });
+
+  it("lets navigation cut off and supersede stale navigation", () => {
+    const ended: [string, SpeechEndReason][] = [];
+    const track = (text: string) => ({
+      onend: (reason: SpeechEndReason) => ended.push([text, reason]),
+    });
+    queue.enqueue("first", "navigation", track("first"));
+    queue.enqueue("second", "navigation", track("second"));
+
+    expect(current()).toBe("second");
+    expect(ended).toEqual([["first", "superseded"]]);
+  });
+
+  it("puts an interrupted polite entry back in line", () => {
+    queue.enqueue("status", "polite");
+    queue.enqueue("Alert", "assertive");
+
+    expect(current()).toBe("Alert");
+    expect(queued()).toEqual(["status"]);
+  });
+
+  it("never interrupts for polite speech", () => {
+    queue.enqueue("Heading", "navigation");
+    queue.enqueue("status", "polite");
+
+    expect(current()).toBe("Heading");
+    expect(queued()).toEqual(["status"]);
+  });
+
+  it("drops everything on clear", () => {
+    const ended: SpeechEndReason[] = [];
+    queue.enqueue("one", "polite", { onend: (r) => ended.push(r) });
+    queue.enqueue("two", "polite", { onend: (r) => ended.push(r) });
+    queue.clear();
+
+    expect(current()).toBeNull();
+    expect(queued()).toEqual([]);
+    expect(ended).toEqual(["cleared", "cleared"]);
+  });
+
+  it("waits while paused", () => {
+    queue.pause();
+    queue.enqueue("later");
+    expect(current()).toBeNull();
+
+    queue.resume();
+    expect(current()).toBe("later");
+  });
+
+  it("speaks an interrupting entry instead of the paused one on resume", () => {
+    const spoken: string[] = [];
+    const synth = {
+      paused: false,
+      pause: () => void (synth.paused = true),
+      resume: () => void (synth.paused = false),
+      cancel: () => void spoken.splice(0),
+      speak: (u: { text: string }) => void spoken.push(u.text),
+    };
+    vi.stubGlobal("speechSynthesis", synth);
+    vi.stubGlobal(
+      "SpeechSynthesisUtterance",
+      class {
+        text: string;
+        constructor(text: string) {
+          this.text = text;
+        }
+      }
+    );
+    try {
+      queue.enqueue("Heading", "navigation");
+      queue.pause();
+      queue.enqueue("Alert", "assertive");
+      queue.resume();
+
+      expect(current()).toBe("Alert");
+      expect(spoken).toEqual(["Alert"]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("keeps meta on the entry", () => {
+    queue.enqueue("Saved", "assertive", { meta: { source: "live region" } });
+    expect(queue.getSnapshot().current?.meta).toEqual({
+      source: "live region",
+    });
+  });
+});
@@ -0,0 +1,217 @@
+// src/utils/speechQueue.ts
+import { cancelSpeech, speak } from "./utils";
+
+// =============================
+// 1. Types & Policy
+// =============================
+
+export type SpeechKind = "assertive" | "navigation" | "typing" | "polite";
+
+/**
+ * Why an entry left the queue: it finished, a newer entry cut it off or made
+ * it stale, or the queue was cleared.
+ */
+export type SpeechEndReason = "spoken" | "superseded" | "cleared";
+
+export interface SpeechEntry {
+  id: number;
+  text: string;
+  kind: SpeechKind;
+  enqueuedAt: number;
+  voice?: SpeechSynthesisVoice | null;
+  /** BCP 47 language of the text, from the node's effective `lang`. */
+  lang?: string;
+  /** Called once when the entry leaves the queue. */
+  onend?: (reason: SpeechEndReason) => void;
+  /** Free-form context for the HUD, e.g. the node role or live region. */
+  meta?: Record<string, string>;
+}
+
+export interface SpeechQueueOptions {
+  rate: number;
+  pitch: number;
+}
+
+export interface SpeechQueueSnapshot {
+  current: SpeechEntry | null;
+  queue: SpeechEntry[];
+  paused: boolean;
+  options: SpeechQueueOptions;
+}
+
+// Higher speaks first
+const PRIORITY: Record<SpeechKind, number> = {
+  assertive: 3,
+  navigation: 2,
+  typing: 1,
+  polite: 0,
+};
+
+// Which kinds of in-progress speech a new entry may cut off. Polite speech
+// never interrupts; user-initiated speech replaces stale user speech.
+const INTERRUPTS: Record<SpeechKind, SpeechKind[]> = {
+  assertive: ["navigation", "typing", "polite"],
+  navigation: ["navigation", "typing", "polite"],
+  typing: ["typing", "polite"],
+  polite: [],
+};
+
+// Queued entries made stale by a newer entry of the given kind
+const SUPERSEDES: Record<SpeechKind, SpeechKind[]> = {
+  assertive: [],
+  navigation: ["navigation", "typing"],
+  typing: [],
+  polite: [],
+};
+
+// =============================
+// 2. Queue
+// =============================
+
+/**
+ * Prioritised speech queue on top of `speak`. Entries are spoken one at a
+ * time, highest priority first. An interrupted polite entry is put back at
+ * the head of its queue rather than lost.
+ */
+export const createSpeechQueue = () => {
+  let nextId = 1;
+  // Bumped on every interruption so callbacks of cancelled utterances are ignored
+  let generation = 0;
+  let current: SpeechEntry | null = null;
+  let queue: SpeechEntry[] = [];
+  let paused = false;
+  let options: SpeechQueueOptions = { rate: 1, pitch: 1 };
+  let snapshot: SpeechQueueSnapshot = { current, queue, paused, options };
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    snapshot = { current, queue, paused, options };
+    listeners.forEach((l) => l());
+  };
+
+  const insert = (entry: SpeechEntry) => {
+    const at = queue.findIndex((e) => PRIORITY[e.kind] < PRIORITY[entry.kind]);
+    queue =
+      at === -1
+        ? [...queue, entry]
+        : [...queue.slice(0, at), entry, ...queue.slice(at)];
+  };
+
+  const speakNext = (interrupt: boolean) => {
+    if (paused || current || !queue.length) {
+      emit();
+      return;
+    }
+    const [entry, ...rest] = queue;
+    queue = rest;
+    current = entry;
+    const token = generation;
+    const done = () => {
+      if (token !== generation) return;
+      current = null;
+      entry.onend?.("spoken");
+      speakNext(false);
+    };
+    speak(entry.text, {
+      interrupt,
+      rate: options.rate,
+      pitch: options.pitch,
+      voice: entry.voice,
+      lang: entry.lang,
+      onend: done,
+      onerror: done,
+    });
+    emit();
+  };
+
+  const enqueue = (
+    text: string,
+    kind: SpeechKind = "navigation",
+    extra: Pick<SpeechEntry, "voice" | "lang" | "meta" | "onend"> = {}
+  ): SpeechEntry => {
+    const entry: SpeechEntry = {
+      id: nextId++,
+      text,
+      kind,
+      enqueuedAt: Date.now(),
+      ...extra,
+    };
+
+    const superseded = queue.filter((e) => SUPERSEDES[kind].includes(e.kind));
+    queue = queue.filter((e) => !superseded.includes(e));
+    insert(entry);
+
+    let interrupt = false;
+    if (current && INTERRUPTS[kind].includes(current.kind)) {
+      if (current.kind === "polite") insert(current);
+      else superseded.push(current);
+      generation++;
+      current = null;
+      interrupt = true;
+      // Paused speech would otherwise carry on from where it stopped on resume
+      if (paused) cancelSpeech();
+    }
+    speakNext(interrupt);
+    superseded.forEach((e) => e.onend?.("superseded"));
+    return entry;
+  };
+
+  /** Stops speaking and drops everything queued. */
+  const clear = () => {
+    const dropped = current ? [current, ...queue] : queue;
+    generation++;
+    current = null;
+    queue = [];
+    cancelSpeech();
+    emit();
+    dropped.forEach((e) => e.onend?.("cleared"));
+  };
+
+  const pause = () => {
+    paused = true;
+    if (typeof window !== "undefined" && "speechSynthesis" in window) {
+      window.speechSynthesis.pause();
+    }
+    emit();
+  };
+
+  const resume = () => {
+    paused = false;
+    if (
+      current &&
+      typeof window !== "undefined" &&
+      "speechSynthesis" in window &&
+      window.speechSynthesis.paused
+    ) {
+      window.speechSynthesis.resume();
+    }
+    speakNext(false);
+  };
+
+  const configure = (next: Partial<SpeechQueueOptions>) => {
+    options = { ...options, ...next };
+    emit();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    enqueue,
+    clear,
+    pause,
+    resume,
+    configure,
+    subscribe,
+    getSnapshot: () => snapshot,
+  };
+};
+
+export type SpeechQueue = ReturnType<typeof createSpeechQueue>;
+
+/** Shared queue used by the simulator and the HUD. */
+export const speechQueue = createSpeechQueue();
@@ -0,0 +1,144 @@
+// src/utils/tables.test.ts
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  buildTableModel,
+  findTableCell,
+  getCellHeaders,
+  moveTableCell,
+  type TableModel,
+} from "./tables";
+
+const mount = (html: string): HTMLElement => {
+  document.body.innerHTML = html;
+  return document.body.firstElementChild as HTMLElement;
+};
+
+const cellAt = (model: TableModel, row: number, col: number) =>
+  model.grid[row]![col]!;
+
+describe("buildTableModel", () => {
+  it("places cells after rowspan and colspan", () => {
+    const table = mount(`
+      <table>
+        <tr><td rowspan="2">A</td><td colspan="2">B</td></tr>
+        <tr><td>C</td><td>D</td></tr>
+      </table>`);
+    const model = buildTableModel(table);
+
+    expect(model.rowCount).toBe(2);
+    expect(model.colCount).toBe(3);
+    expect(cellAt(model, 1, 0).el.textContent).toBe("A");
+    expect(cellAt(model, 0, 2).el.textContent).toBe("B");
+    expect(cellAt(model, 1, 1)).toMatchObject({ col: 1, colIndex: 2 });
+  });
+
+  it("announces aria-rowcount and aria-rowindex over the DOM size", () => {
+    const grid = mount(`
+      <div role="grid" aria-rowcount="100" aria-colcount="4">
+        <div role="row" aria-rowindex="42">
+          <div role="gridcell">x</div>
+          <div role="gridcell" aria-colindex="4">y</div>
+        </div>
+      </div>`);
+    const model = buildTableModel(grid);
+
+    expect(model).toMatchObject({ rowCount: 100, colCount: 4 });
+    expect(model.cells.map((c) => [c.rowIndex, c.colIndex])).toEqual([
+      [42, 1],
+      [42, 4],
+    ]);
+  });
+
+  it("tells column headers from row headers", () => {
+    const table = mount(`
+      <table>
+        <thead><tr><th>Name</th><th>Age</th></tr></thead>
+        <tbody><tr><th>Ann</th><td>30</td></tr></tbody>
+      </table>`);
+    const model = buildTableModel(table);
+
+    expect(model.cells.map((c) => c.header)).toEqual([
+      "column",
+      "column",
+      "row",
+      null,
+    ]);
+  });
+});
+
+describe("findTableCell", () => {
+  beforeEach(() => {
+    mount(`
+      <table>
+        <tr><td><span id="inner">A</span></td><td>B</td></tr>
+      </table>
+      <table role="presentation"><tr><td id="layout">C</td></tr></table>`);
+  });
+
+  it("finds the cell around an element", () => {
+    const found = findTableCell(document.getElementById("inner")!);
+    expect(found?.cell).toMatchObject({ row: 0, col: 0 });
+  });
+
+  it("ignores layout tables", () => {
+    expect(findTableCell(document.getElementById("layout")!)).toBeNull();
+  });
+
+  it("reuses a cached model", () => {
+    const models = new Map<HTMLElement, TableModel>();
+    const first = findTableCell(document.getElementById("inner")!, models);
+    const second = findTableCell(
+      document.querySelector<HTMLElement>("td:nth-child(2)")!,
+      models
+    );
+    expect(models.size).toBe(1);
+    expect(second?.model).toBe(first?.model);
+  });
+});
+
+describe("moveTableCell", () => {
+  it("steps over spans and stops at the edges", () => {
+    const table = mount(`
+      <table>
+        <tr><td colspan="2">A</td><td>B</td></tr>
+        <tr><td>C</td><td>D</td><td>E</td></tr>
+      </table>`);
+    const model = buildTableModel(table);
+    const a = cellAt(model, 0, 0);
+
+    expect(moveTableCell(model, a, 0, 1)?.el.textContent).toBe("B");
+    expect(moveTableCell(model, a, 1, 0)?.el.textContent).toBe("C");
+    expect(moveTableCell(model, a, -1, 0)).toBeNull();
+    expect(moveTableCell(model, a, 0, -1)).toBeNull();
+  });
+});
+
+describe("getCellHeaders", () => {
+  it("collects row and column headers along the grid", () => {
+    const table = mount(`
+      <table>
+        <tr><th></th><th>Mon</th><th>Tue</th></tr>
+        <tr><th>Alice</th><td>9</td><td>5</td></tr>
+      </table>`);
+    const model = buildTableModel(table);
+
+    expect(getCellHeaders(model, cellAt(model, 1, 2))).toEqual({
+      row: ["Alice"],
+      column: ["Tue"],
+    });
+  });
+
+  it("prefers the headers attribute", () => {
+    const table = mount(`
+      <table>
+        <tr><th id="h1">Price</th><th id="h2">Tax</th></tr>
+        <tr><td headers="h2">7</td><td>8</td></tr>
+      </table>`);
+    const model = buildTableModel(table);
+
+    expect(getCellHeaders(model, cellAt(model, 1, 0))).toEqual({
+      row: [],
+      column: ["Tax"],
+    });
+  });
+});
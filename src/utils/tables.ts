@@ -0,0 +1,231 @@
+// src/utils/tables.ts
+import { computeAccessibleName } from "dom-accessibility-api";
+
+// =============================
+// 1. Types & Selectors
+// =============================
+
+export type HeaderKind = "row" | "column";
+
+export interface TableCell {
+  el: HTMLElement;
+  /** 0-based slot in the grid, after rowspan/colspan placement */
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  /** 1-based position to announce (aria-rowindex/aria-colindex aware) */
+  rowIndex: number;
+  colIndex: number;
+  header: HeaderKind | null;
+}
+
+export interface TableModel {
+  el: HTMLElement;
+  /** Announced size (aria-rowcount/aria-colcount aware) */
+  rowCount: number;
+  colCount: number;
+  cells: TableCell[];
+  /** grid[row][col]; spanned slots point at the spanning cell */
+  grid: (TableCell | undefined)[][];
+}
+
+export const TABLE_SELECTOR =
+  "table, [role='table'], [role='grid'], [role='treegrid']";
+
+const CELL_SELECTOR =
+  "td, th, [role='cell'], [role='gridcell'], [role='columnheader'], [role='rowheader']";
+
+// Layout tables are not exposed as tables
+const isLayoutTable = (el: Element): boolean =>
+  ["presentation", "none"].includes(el.getAttribute("role") ?? "");
+
+const positiveInt = (value: string | null): number | undefined => {
+  const n = value ? parseInt(value, 10) : NaN;
+  return n > 0 ? n : undefined;
+};
+
+// =============================
+// 2. Model Construction
+// =============================
+
+const getRows = (table: HTMLElement): HTMLElement[] =>
+  table instanceof HTMLTableElement
+    ? Array.from(table.rows)
+    : Array.from(
+        table.querySelectorAll<HTMLElement>("[role='row'], tr")
+      ).filter((r) => r.parentElement?.closest(TABLE_SELECTOR) === table);
+
+const getRowCells = (row: HTMLElement): HTMLElement[] =>
+  Array.from(row.querySelectorAll<HTMLElement>(CELL_SELECTOR)).filter(
+    (c) => c.parentElement?.closest("tr, [role='row']") === row
+  );
+
+const getHeaderKind = (
+  el: HTMLElement,
+  rowCells: HTMLElement[]
+): HeaderKind | null => {
+  const role = el.getAttribute("role");
+  if (role === "columnheader") return "column";
+  if (role === "rowheader") return "row";
+  if (role || el.tagName !== "TH") return null;
+
+  const scope = el.getAttribute("scope");
+  if (scope === "col" || scope === "colgroup") return "column";
+  if (scope === "row" || scope === "rowgroup") return "row";
+
+  // Auto scope: header rows label columns, a th among data cells its row
+  if (el.closest("thead")) return "column";
+  return rowCells.every((c) => c.tagName === "TH") ? "column" : "row";
+};
+
+/**
+ * Lays cells out on a grid the way the HTML table algorithm does, so that
+ * rowspan/colspan shift later cells into the right columns.
+ */
+export const buildTableModel = (table: HTMLElement): TableModel => {
+  const grid: (TableCell | undefined)[][] = [];
+  const cells: TableCell[] = [];
+  const rows = getRows(table);
+
+  rows.forEach((rowEl, r) => {
+    const rowCells = getRowCells(rowEl);
+    const ariaRow = positiveInt(rowEl.getAttribute("aria-rowindex"));
+    let c = 0;
+
+    rowCells.forEach((el) => {
+      grid[r] ??= [];
+      while (grid[r]![c]) c++;
+
+      // rowspan="0" spans to the end of the table
+      const rowSpanAttr = el.getAttribute("rowspan");
+      const rowSpan =
+        rowSpanAttr === "0"
+          ? rows.length - r
+          : positiveInt(rowSpanAttr ?? el.getAttribute("aria-rowspan")) ?? 1;
+      const colSpan =
+        positiveInt(
+          el.getAttribute("colspan") ?? el.getAttribute("aria-colspan")
+        ) ?? 1;
+
+      const cell: TableCell = {
+        el,
+        row: r,
+        col: c,
+        rowSpan,
+        colSpan,
+        rowIndex:
+          positiveInt(el.getAttribute("aria-rowindex")) ?? ariaRow ?? r + 1,
+        colIndex: positiveInt(el.getAttribute("aria-colindex")) ?? c + 1,
+        header: getHeaderKind(el, rowCells),
+      };
+      cells.push(cell);
+
+      for (let dr = 0; dr < rowSpan && r + dr < rows.length; dr++) {
+        grid[r + dr] ??= [];
+        for (let dc = 0; dc < colSpan; dc++) grid[r + dr]![c + dc] = cell;
+      }
+      c += colSpan;
+    });
+  });
+
+  const gridCols = Math.max(0, ...grid.map((row) => row?.length ?? 0));
+  return {
+    el: table,
+    rowCount: positiveInt(table.getAttribute("aria-rowcount")) ?? rows.length,
+    colCount: positiveInt(table.getAttribute("aria-colcount")) ?? gridCols,
+    cells,
+    grid,
+  };
+};
+
+// =============================
+// 3. Lookup & Movement
+// =============================
+
+/**
+ * The table cell containing `el`, with its table's model. Pass `models` to
+ * reuse each table's model across lookups, e.g. for a whole tree build.
+ */
+export const findTableCell = (
+  el: HTMLElement,
+  models?: Map<HTMLElement, TableModel>
+): { model: TableModel; cell: TableCell } | null => {
+  const cellEl = el.closest<HTMLElement>(CELL_SELECTOR);
+  const table = cellEl?.closest<HTMLElement>(TABLE_SELECTOR);
+  if (!cellEl || !table || isLayoutTable(table)) return null;
+
+  let model = models?.get(table);
+  if (!model) {
+    model = buildTableModel(table);
+    models?.set(table, model);
+  }
+  const cell = model.cells.find((c) => c.el === cellEl);
+  return cell ? { model, cell } : null;
+};
+
+/** Neighbouring cell in a direction, stepping over spans; null at an edge. */
+export const moveTableCell = (
+  model: TableModel,
+  from: TableCell,
+  rowDelta: -1 | 0 | 1,
+  colDelta: -1 | 0 | 1
+): TableCell | null => {
+  const row =
+    rowDelta > 0
+      ? from.row + from.rowSpan
+      : rowDelta < 0
+      ? from.row - 1
+      : from.row;
+  const col =
+    colDelta > 0
+      ? from.col + from.colSpan
+      : colDelta < 0
+      ? from.col - 1
+      : from.col;
+  return model.grid[row]?.[col] ?? null;
+};
+
+// =============================
+// 4. Headers
+// =============================
+
+const headerText = (cell: TableCell): string =>
+  computeAccessibleName(cell.el) || (cell.el.textContent ?? "").trim();
+
+/**
+ * Row and column header text for a cell. An explicit `headers` attribute
+ * wins; otherwise headers are found along the cell's row and columns.
+ */
+export const getCellHeaders = (
+  model: TableModel,
+  cell: TableCell
+): { row: string[]; column: string[] } => {
+  const result = { row: [] as string[], column: [] as string[] };
+
+  const ids = cell.el.getAttribute("headers")?.trim();
+  if (ids) {
+    ids.split(/\s+/).forEach((id) => {
+      const header = model.cells.find((c) => c.el.id === id);
+      if (!header || header === cell) return;
+      const kind =
+        header.header ?? (header.col === cell.col ? "column" : "row");
+      result[kind].push(headerText(header));
+    });
+    return result;
+  }
+
+  const seen = new Set<TableCell>([cell]);
+  const collect = (candidate: TableCell | undefined, kind: HeaderKind) => {
+    if (!candidate || seen.has(candidate) || candidate.header !== kind) return;
+    seen.add(candidate);
+    const text = headerText(candidate);
+    if (text) result[kind].push(text);
+  };
+
+  for (let c = 0; c < cell.col; c++) collect(model.grid[cell.row]?.[c], "row");
+  for (let c = cell.col; c < cell.col + cell.colSpan; c++) {
+    for (let r = 0; r < cell.row; r++) collect(model.grid[r]?.[c], "column");
+  }
+  return result;
+};
@@ -0,0 +1,74 @@
+// src/utils/textNavigation.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  describeCharacter,
+  MAX_LINE_LENGTH,
+  segmentText,
+  speakPunctuation,
+  stepSegment,
+} from "./textNavigation";
+
+const texts = (text: string, granularity: "character" | "word" | "line") =>
+  segmentText(text, granularity).map((s) => s.text);
+
+describe("segmentText", () => {
+  it("keeps astral characters whole", () => {
+    expect(texts("a👍b", "character")).toEqual(["a", "👍", "b"]);
+  });
+
+  it("splits words on whitespace with their offsets", () => {
+    expect(segmentText("  one two", "word")).toEqual([
+      { text: "one", start: 2, end: 5 },
+      { text: "two", start: 6, end: 9 },
+    ]);
+  });
+
+  it("splits lines on newlines and skips blank ones", () => {
+    expect(texts("first\n\nsecond", "line")).toEqual(["first", "second"]);
+  });
+
+  it("wraps long lines between words", () => {
+    const word = "x".repeat(30);
+    const lines = segmentText(Array(5).fill(word).join(" "), "line");
+
+    expect(lines).toHaveLength(2);
+    lines.forEach((l) =>
+      expect(l.text.length).toBeLessThanOrEqual(MAX_LINE_LENGTH)
+    );
+  });
+});
+
+describe("stepSegment", () => {
+  const words = segmentText("one two three", "word");
+
+  it("moves from inside a segment to the next or previous one", () => {
+    expect(stepSegment(words, 5, true)?.text).toBe("three");
+    expect(stepSegment(words, 5, false)?.text).toBe("two");
+  });
+
+  it("returns null past either end", () => {
+    expect(stepSegment(words, 8, true)).toBeNull();
+    expect(stepSegment(words, 0, false)).toBeNull();
+  });
+});
+
+describe("describeCharacter", () => {
+  it("names punctuation and capitals", () => {
+    expect(describeCharacter(" ")).toBe("space");
+    expect(describeCharacter("?")).toBe("question");
+    expect(describeCharacter("Q")).toBe("cap Q");
+    expect(describeCharacter("q")).toBe("q");
+  });
+});
+
+describe("speakPunctuation", () => {
+  const text = "50% off! (today)";
+
+  it("speaks more symbols at each level", () => {
+    expect(speakPunctuation(text, "none")).toBe(text);
+    expect(speakPunctuation(text, "some")).toBe("50 percent off! (today)");
+    expect(speakPunctuation(text, "most")).toBe(
+      "50 percent off bang left paren today right paren"
+    );
+  });
+});
@@ -0,0 +1,178 @@
+// src/utils/textNavigation.ts
+import type { AccNode } from "./utils";
+
+// =============================
+// 1. Segmentation
+// =============================
+
+export type Granularity = "character" | "word" | "line";
+
+export interface TextSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Browse mode without screen layout wraps at NVDA's default line length
+export const MAX_LINE_LENGTH = 100;
+
+/** Text the virtual caret moves over for a node. */
+export const getNodeText = (node: AccNode): string =>
+  node.name || node.value || "";
+
+const splitCharacters = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  // Code points, so emoji and astral characters stay whole
+  let start = 0;
+  for (const ch of text) {
+    segments.push({ text: ch, start, end: start + ch.length });
+    start += ch.length;
+  }
+  return segments;
+};
+
+const splitWords = (text: string): TextSegment[] =>
+  Array.from(text.matchAll(/\S+/g), (m) => ({
+    text: m[0],
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+
+const splitLines = (text: string): TextSegment[] => {
+  const lines: TextSegment[] = [];
+  let lineStart = 0;
+  let lineEnd = 0;
+
+  const flush = () => {
+    const line = text.slice(lineStart, lineEnd);
+    if (line.trim()) lines.push({ text: line, start: lineStart, end: lineEnd });
+  };
+
+  for (const m of text.matchAll(/\S+|\n/g)) {
+    if (m[0] === "\n") {
+      flush();
+      lineStart = lineEnd = m.index + 1;
+      continue;
+    }
+    const end = m.index + m[0].length;
+    // Soft wrap before a word that would overflow the line
+    if (end - lineStart > MAX_LINE_LENGTH && lineEnd > lineStart) {
+      flush();
+      lineStart = m.index;
+    }
+    lineEnd = end;
+  }
+  flush();
+  return lines;
+};
+
+export const segmentText = (
+  text: string,
+  granularity: Granularity
+): TextSegment[] => {
+  if (granularity === "character") return splitCharacters(text);
+  if (granularity === "word") return splitWords(text);
+  return splitLines(text);
+};
+
+/**
+ * Segment after (or before) the caret offset; null past either end.
+ * A caret inside a segment moves to the start of the next/previous one.
+ */
+export const stepSegment = (
+  segments: TextSegment[],
+  offset: number,
+  forward: boolean
+): TextSegment | null =>
+  (forward
+    ? segments.find((s) => s.start > offset)
+    : [...segments].reverse().find((s) => s.start < offset)) ?? null;
+
+// =============================
+// 2. Character Names
+// =============================
+
+// Spoken names for characters a synthesizer would otherwise skip
+const CHARACTER_NAMES: Record<string, string> = {
+  " ": "space",
+  "\u00a0": "space",
+  "\t": "tab",
+  "\n": "new line",
+  ".": "dot",
+  ",": "comma",
+  ";": "semicolon",
+  ":": "colon",
+  "!": "bang",
+  "?": "question",
+  "'": "tick",
+  '"': "quote",
+  "-": "dash",
+  "–": "en dash",
+  "—": "em dash",
+  _: "line",
+  "/": "slash",
+  "\\": "backslash",
+  "(": "left paren",
+  ")": "right paren",
+  "[": "left bracket",
+  "]": "right bracket",
+  "{": "left brace",
+  "}": "right brace",
+  "<": "less",
+  ">": "greater",
+  "@": "at",
+  "#": "number",
+  $: "dollar",
+  "%": "percent",
+  "&": "and",
+  "*": "star",
+  "+": "plus",
+  "=": "equals",
+  "^": "caret",
+  "~": "tilde",
+  "|": "bar",
+  "`": "grave",
+};
+
+/** How a single character is spoken when moving by character. */
+export const describeCharacter = (ch: string): string => {
+  const named = CHARACTER_NAMES[ch];
+  if (named) return named;
+  if (ch !== ch.toLowerCase()) return `cap ${ch}`;
+  return ch;
+};
+
+// =============================
+// 3. Punctuation Levels
+// =============================
+
+/** NVDA's symbol levels: how much punctuation is spoken by name. */
+export type PunctuationLevel = "none" | "some" | "most" | "all";
+
+// Symbols spoken from "some" up, and those added at "most"; "all" speaks
+// every symbol
+const SOME_SYMBOLS = "#$%&*+/@\\^_|~`<>=";
+const MOST_SYMBOLS = ".,;:!?'\"-()[]{}–—";
+
+const isSpokenAt = (ch: string, level: PunctuationLevel): boolean => {
+  if (level === "none") return false;
+  if (level === "all" || SOME_SYMBOLS.includes(ch)) return true;
+  return level === "most" && MOST_SYMBOLS.includes(ch);
+};
+
+/**
+ * Text with punctuation replaced by its spoken name, as far as the level
+ * asks for ("50% off!" at "some" reads "50 percent off!").
+ */
+export const speakPunctuation = (
+  text: string,
+  level: PunctuationLevel
+): string => {
+  if (level === "none") return text;
+  return text
+    .replace(/[^\p{L}\p{N}\s]/gu, (ch) =>
+      isSpokenAt(ch, level) ? ` ${CHARACTER_NAMES[ch] ?? ch} ` : ch
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+};
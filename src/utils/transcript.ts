@@ -0,0 +1,32 @@
+// src/utils/transcript.ts
+import { formatNavigation } from "./announce";
+import { DEFAULT_PROFILE, PROFILES, type ProfileId } from "./profiles";
+import { type AccNode, collectAccTree } from "./utils";
+
+export interface TranscriptEntry {
+  index: number;
+  role: string;
+  name: string;
+  text: string;
+}
+
+/**
+ * The linear reading of the current document: what the simulator says when
+ * the user presses "next" from the first node to the last. Needs only a DOM,
+ * so it runs the same in the browser and under jsdom.
+ */
+export const generateTranscript = (
+  profileId: ProfileId = DEFAULT_PROFILE,
+  nodes: AccNode[] = collectAccTree()
+): TranscriptEntry[] => {
+  const profile = PROFILES[profileId] ?? PROFILES[DEFAULT_PROFILE];
+  return nodes.map((node, index) => ({
+    index,
+    role: node.role,
+    name: node.name,
+    text: formatNavigation(nodes[index - 1] ?? null, node, profile),
+  }));
+};
+
+export const formatTranscript = (entries: TranscriptEntry[]): string =>
+  entries.map((e) => `${e.index + 1}. ${e.text}`).join("\n");
@@ -4,6 +4,7 @@ import {
   computeAccessibleName,
   getRole as getSafeRole,
 } from "dom-accessibility-api";
+import { findTableCell, type TableModel } from "./tables";
 
 // =============================
 // 1. Speech & Types
@@ -18,6 +19,9 @@ export interface AccNode {
   states: string[];
   pos?: { pos: number; size: number };
   coords?: { row: number; col: number };
+  parent?: AccNode;
+  children: AccNode[];
+  depth: number;
 }
 
 let currentUtterance: SpeechSynthesisUtterance | null = null;
@@ -29,10 +33,17 @@ export const speak = (
     rate?: number;
     pitch?: number;
     voice?: SpeechSynthesisVoice | null;
+    lang?: string;
     onend?: () => void;
+    onerror?: (e: SpeechSynthesisErrorEvent) => void;
   }
 ): void => {
-  if (!("speechSynthesis" in window)) return;
+  // 1. Silent backend (jsdom, Node): still signal completion so callers that
+  // chain on `onend` keep advancing
+  if (typeof window === "undefined" || !("speechSynthesis" in window)) {
+    if (opts?.onend) setTimeout(opts.onend, 0);
+    return;
+  }
 
   // 2. Clear any pending speech to prevent "queue jams"
   if (window.speechSynthesis.paused) window.speechSynthesis.resume();
@@ -42,7 +53,9 @@ export const speak = (
     rate = 1.0,
     pitch = 1.0,
     voice = null,
+    lang,
     onend,
+    onerror,
   } = opts || {};
 
   if (interrupt) window.speechSynthesis.cancel();
@@ -52,6 +65,7 @@ export const speak = (
   currentUtterance.rate = rate;
   currentUtterance.pitch = pitch;
   if (voice) currentUtterance.voice = voice;
+  if (lang) currentUtterance.lang = lang;
 
   if (onend) {
     currentUtterance.onend = () => {
@@ -63,11 +77,17 @@ export const speak = (
 
   currentUtterance.onerror = (e) => {
     console.error("Speech Error:", e);
+    onerror?.(e);
   };
 
   window.speechSynthesis.speak(currentUtterance);
 };
 
+export const cancelSpeech = (): void => {
+  if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+  window.speechSynthesis.cancel();
+};
+
 // =============================
 // 2. DOM Query Helpers
 // =============================
@@ -100,7 +120,7 @@ const isCheckable = (el: HTMLElement): el is HTMLInputElement => {
 /**
  * Determines if an element is hidden from the accessibility tree.
  */
-const isHidden = (el: HTMLElement): boolean => {
+export const isHidden = (el: HTMLElement): boolean => {
   // 1. Critical: aria-hidden hides the subtree, regardless of CSS.
   if (el.closest("[aria-hidden='true']")) return true;
 
@@ -123,7 +143,7 @@ const isHidden = (el: HTMLElement): boolean => {
   return false;
 };
 
-const isFocusable = (el: HTMLElement): boolean => {
+export const isFocusable = (el: HTMLElement): boolean => {
   if (el.tabIndex >= 0) return true;
   const t = el.tagName.toLowerCase();
   if (["button", "input", "select", "textarea"].includes(t)) {
@@ -134,6 +154,32 @@ const isFocusable = (el: HTMLElement): boolean => {
   return false;
 };
 
+// Widgets that handle arrow keys themselves. Screen readers switch to focus
+// mode when one of these (or anything inside an application) gets focus.
+const FOCUS_MODE_SELECTOR = [
+  "input:not([type='checkbox']):not([type='radio']):not([type='button']):not([type='submit']):not([type='reset']):not([type='image'])",
+  "textarea",
+  "select",
+  ...[
+    "application",
+    "combobox",
+    "grid",
+    "listbox",
+    "menu",
+    "menubar",
+    "radiogroup",
+    "slider",
+    "spinbutton",
+    "tablist",
+    "textbox",
+    "tree",
+    "treegrid",
+  ].map((role) => `[role='${role}']`),
+].join(", ");
+
+export const requiresFocusMode = (el: HTMLElement): boolean =>
+  el.isContentEditable || !!el.closest(FOCUS_MODE_SELECTOR);
+
 const getDirectText = (el: HTMLElement): string => {
   let text = "";
   el.childNodes.forEach((node) => {
@@ -303,25 +349,124 @@ export const computeHierarchy = (
 };
 
 export const computeTableCoords = (
-  el: HTMLElement
+  el: HTMLElement,
+  tables?: Map<HTMLElement, TableModel>
 ): { row: number; col: number } | undefined => {
-  const cell = el.closest("td,th") as HTMLElement | null;
-  if (!cell) return undefined;
-
-  const rowEl = cell.parentElement as HTMLTableRowElement;
-  const tableEl = rowEl?.closest("table");
-  if (tableEl && rowEl) {
-    const rowIndex = Array.from(tableEl.rows).indexOf(rowEl) + 1;
-    const colIndex = Array.from(rowEl.children).indexOf(cell) + 1;
-    return { row: rowIndex, col: colIndex };
-  }
-  return undefined;
+  const found = findTableCell(el, tables);
+  if (!found) return undefined;
+  return { row: found.cell.rowIndex, col: found.cell.colIndex };
 };
 
 // =============================
 // 4. Tree Traversal & De-duplication
 // =============================
 
+/**
+ * Roles that screen readers announce when the cursor moves into or out of
+ * them ("list, 4 items" ... "out of list").
+ */
+export const CONTAINER_ROLES = new Set([
+  "list",
+  "listbox",
+  "menu",
+  "menubar",
+  "tablist",
+  "tree",
+  "radiogroup",
+  "group",
+  "table",
+  "grid",
+  "treegrid",
+  "banner",
+  "navigation",
+  "main",
+  "contentinfo",
+  "complementary",
+  "search",
+  "region",
+  "form",
+  "dialog",
+  "alertdialog",
+]);
+
+// region and form are only landmarks when they have an accessible name
+export const isContainer = (role: string, name: string): boolean => {
+  if (!CONTAINER_ROLES.has(role)) return false;
+  if (role === "region" || role === "form") return !!name;
+  return true;
+};
+
+const getParentElement = (el: Element): Element | null => {
+  if (el.parentElement) return el.parentElement;
+  const root = el.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+};
+
+/** Nearest `lang` on the element or its ancestors, else the document's. */
+export const getEffectiveLang = (el: Element): string => {
+  let current: Element | null = el;
+  while (current) {
+    const lang = current.getAttribute("lang");
+    if (lang !== null) return lang.trim();
+    current = getParentElement(current);
+  }
+  return document.documentElement.lang.trim();
+};
+
+/**
+ * Element referenced by `aria-activedescendant`, looked up in the owner's
+ * own tree so comboboxes inside shadow roots resolve too.
+ */
+export const getActiveDescendant = (el: HTMLElement): HTMLElement | null => {
+  const id = el.getAttribute("aria-activedescendant")?.trim();
+  if (!id) return null;
+  const root = el.getRootNode();
+  const target =
+    root instanceof Document || root instanceof ShadowRoot
+      ? root.getElementById(id)
+      : null;
+  return target instanceof HTMLElement && !isHidden(target) ? target : null;
+};
+
+/** Node for a single element, for elements the tree has not picked up yet. */
+export const createAccNode = (el: HTMLElement): AccNode => {
+  const role = computeEffectiveRole(el);
+  return {
+    el,
+    role,
+    name: computeAccessibleName(el) || getDirectText(el),
+    description: computeAccessibleDescription(el),
+    states: computeStates(el, role),
+    value: computeValue(el, role),
+    pos: computeHierarchy(el, role),
+    coords: computeTableCoords(el),
+    children: [],
+    depth: 0,
+  };
+};
+
+/**
+ * Links every node to its nearest ancestor node, turning the document-order
+ * list into a tree. Children stay in document order.
+ */
+const linkHierarchy = (nodes: AccNode[]): void => {
+  const byEl = new Map<Element, AccNode>();
+  nodes.forEach((n) => byEl.set(n.el, n));
+
+  for (const node of nodes) {
+    let ancestor = getParentElement(node.el);
+    while (ancestor && !byEl.has(ancestor)) {
+      ancestor = getParentElement(ancestor);
+    }
+    const parent = ancestor ? byEl.get(ancestor) : undefined;
+    if (parent) {
+      node.parent = parent;
+      node.depth = parent.depth + 1;
+      parent.children.push(node);
+    }
+  }
+};
+
 const createAccWalker = (root: Node) => {
   return document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
     acceptNode: (node) => {
@@ -378,10 +523,17 @@ const consolidateTree = (nodes: AccNode[]): AccNode[] => {
   });
 };
 
-const collectNodesRecursively = (root: Node, nodes: AccNode[]): void => {
+const collectNodesRecursively = (
+  root: Node,
+  nodes: AccNode[],
+  structural: Set<AccNode>,
+  // Table models built so far, shared by every cell of a table
+  tables: Map<HTMLElement, TableModel>
+): void => {
   const walker = createAccWalker(root);
 
-  let currentNode = walker.nextNode();
+  // An element root (a modal dialog) is part of its own subtree
+  let currentNode = root instanceof HTMLElement ? root : walker.nextNode();
   while (currentNode) {
     const el = currentNode as HTMLElement;
 
@@ -414,7 +566,20 @@ const collectNodesRecursively = (root: Node, nodes: AccNode[]): void => {
       const states = computeStates(el, role);
       const value = computeValue(el, role);
       const hierarchy = computeHierarchy(el, role);
-      const coords = computeTableCoords(el);
+      const coords = computeTableCoords(el, tables);
+
+      const node: AccNode = {
+        el,
+        role,
+        name,
+        description,
+        states,
+        value,
+        pos: hierarchy,
+        coords,
+        children: [],
+        depth: 0,
+      };
 
       if (
         name ||
@@ -424,31 +589,67 @@ const collectNodesRecursively = (root: Node, nodes: AccNode[]): void => {
         isSelfContained ||
         hierarchy
       ) {
-        nodes.push({
-          el,
-          role,
-          name,
-          description,
-          states,
-          value,
-          pos: hierarchy,
-          coords,
-        });
+        nodes.push(node);
+      } else if (isContainer(role, name)) {
+        // 4. Containers carry structure only; the cursor never stops on them
+        nodes.push(node);
+        structural.add(node);
       }
     }
 
     // 5. Shadow DOM Recursion
     if (el.shadowRoot) {
-      collectNodesRecursively(el.shadowRoot, nodes);
+      collectNodesRecursively(el.shadowRoot, nodes, structural, tables);
     }
 
     currentNode = walker.nextNode();
   }
 };
 
+// =============================
+// 5. Modal Dialogs
+// =============================
+
+const MODAL_SELECTOR =
+  "dialog, [role='dialog'][aria-modal='true'], [role='alertdialog'][aria-modal='true']";
+
+// Only showModal() makes a native <dialog> modal; show() leaves it inline
+const isNativeModal = (el: HTMLDialogElement): boolean => {
+  try {
+    return el.open && el.matches(":modal");
+  } catch {
+    return false; // Engines without :modal
+  }
+};
+
+export const isModalOpen = (el: HTMLElement): boolean => {
+  if (!el.isConnected || isHidden(el)) return false;
+  return el instanceof HTMLDialogElement ? isNativeModal(el) : true;
+};
+
+/**
+ * Topmost open modal dialog, if any. While one is open the rest of the page
+ * is inert to assistive technology, so the tree is confined to it.
+ */
+export const getActiveModal = (): HTMLElement | null => {
+  const open = Array.from(
+    document.querySelectorAll<HTMLElement>(MODAL_SELECTOR)
+  ).filter(isModalOpen);
+  return open[open.length - 1] ?? null;
+};
+
 export const collectAccTree = (): AccNode[] => {
   const nodes: AccNode[] = [];
-  collectNodesRecursively(document, nodes);
+  const structural = new Set<AccNode>();
+  collectNodesRecursively(
+    getActiveModal() ?? document,
+    nodes,
+    structural,
+    new Map()
+  );
   // Apply the de-duplication logic
-  return consolidateTree(nodes);
+  const tree = consolidateTree(nodes);
+  linkHierarchy(tree);
+  // Only navigable nodes are returned; containers stay reachable via `parent`
+  return tree.filter((n) => !structural.has(n));
 };